@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Scheduling benchmark of the API Rate Limiter
+ * Replays synthetic traffic through typical configurations in virtual time and prints
+ * the queue wait times, the admitted throughput and the real time every simulation took,
+ * for the precise scheduler and for the one-second tick loop of earlier releases, emulated by
+ * rounding the limiter's timers up to whole seconds.
+ * Run with `npm run bench` after changes to admission or scheduling.
+ */
+
+const { performance } = require("perf_hooks");
+const { poissonArrivals, simulate } = require("../dist/simulator");
+
+const MINUTE = 60 * 1000;
+
+/** Schedulers compared, by the `tickIntervalMs` passed to `simulate` */
+const schedulers = [
+  { name: "1 s tick", tickIntervalMs: 1000 },
+  { name: "precise", tickIntervalMs: undefined },
+];
+
+const scenarios = [
+  {
+    name: "steady 8/s, limit 10/s",
+    limiter: { windows: [{ limit: 10, durationMs: 1000 }] },
+    arrivals: poissonArrivals(8, 10 * MINUTE),
+  },
+  {
+    name: "overload 20/s, limit 10/s",
+    limiter: {
+      windows: [{ limit: 10, durationMs: 1000 }],
+      maxQueueSize: Infinity,
+    },
+    arrivals: poissonArrivals(20, MINUTE),
+  },
+  {
+    name: "15 every 10 s, limits 5/s and 100/min",
+    limiter: {
+      windows: [
+        { limit: 5, durationMs: 1000 },
+        { limit: 100, durationMs: MINUTE },
+      ],
+    },
+    arrivals: Array.from(
+      { length: 60 * 15 },
+      (_, i) => Math.floor(i / 15) * 10000
+    ),
+  },
+  {
+    name: "burst of 100, limit 10/s",
+    limiter: { windows: [{ limit: 10, durationMs: 1000 }] },
+    arrivals: new Array(100).fill(0),
+  },
+];
+
+/**
+ * Rounds to one decimal.
+ */
+const round = (value) => Math.round(value * 10) / 10;
+
+async function main() {
+  const rows = [];
+  for (const { name, limiter, arrivals } of scenarios) {
+    for (const { name: scheduler, tickIntervalMs } of schedulers) {
+      const startedAt = performance.now();
+      const report = await simulate({
+        limiter,
+        arrivals,
+        durationMs: 50,
+        tickIntervalMs,
+      });
+      const realMs = performance.now() - startedAt;
+      const lastAdmission = Math.max(
+        ...report.requests.map(({ admittedAt }) => admittedAt ?? 0)
+      );
+      rows.push({
+        scenario: name,
+        scheduler,
+        requests: report.requests.length,
+        "wait p50 (ms)": round(report.waitMs.p50),
+        "wait p99 (ms)": round(report.waitMs.p99),
+        "wait max (ms)": round(report.waitMs.max),
+        "admitted/s": round(
+          (report.admitted / Math.max(lastAdmission, 1)) * 1000
+        ),
+        "real time (ms)": round(realMs),
+      });
+    }
+  }
+  console.table(rows);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,183 @@
+import { InvalidOptionsError } from "./errors";
+import {
+  AdaptiveOptions,
+  AdaptiveState,
+  AdaptiveStatus,
+  RateLimitFeedback,
+  RateLimitWindow,
+} from "./type";
+
+/**
+ * Adapts the effective limits of a rate limiter to feedback from the upstream API.
+ *
+ * Limits follow AIMD: a reported rate limit multiplies them by `decreaseFactor`
+ * (at most once per `cooldownMs`, so a burst of 429s counts once), and every successful request
+ * adds back `increaseStep` of the configured limits until they are reached again.
+ * A `Retry-After` pauses admissions altogether, and a reported remaining quota caps admissions
+ * until the upstream reset.
+ */
+class AdaptiveController {
+  private scale = 1;
+  private backoffUntil = 0;
+  private lastDecreaseAt = -Infinity;
+  private upstream: { remaining: number; resetAt: number } | null = null;
+  private decreaseFactor: number;
+  private increaseStep: number;
+  private minScale: number;
+
+  /**
+   * Creates an instance of AdaptiveController.
+   * @param {AdaptiveOptions} options - AIMD tuning.
+   * @param {number} cooldownMs - Minimum time between two decreases.
+   *
+   * @throws {InvalidOptionsError} If a tuning value is out of range.
+   */
+  constructor(options: AdaptiveOptions = {}, private cooldownMs: number) {
+    const {
+      decreaseFactor = 0.5,
+      increaseStep = 0.05,
+      minScale = 0.1,
+    } = options;
+    if (!(decreaseFactor > 0 && decreaseFactor < 1)) {
+      throw new InvalidOptionsError("decreaseFactor must be between 0 and 1");
+    }
+    if (!(increaseStep > 0)) {
+      throw new InvalidOptionsError("increaseStep must be positive");
+    }
+    if (!(minScale > 0 && minScale <= 1)) {
+      throw new InvalidOptionsError("minScale must be between 0 and 1");
+    }
+    this.decreaseFactor = decreaseFactor;
+    this.increaseStep = increaseStep;
+    this.minScale = minScale;
+  }
+
+  /**
+   * Applies feedback reported by the upstream API.
+   *
+   * @param {RateLimitFeedback} feedback - The reported signal.
+   * @param {number} now - The current timestamp in milliseconds.
+   */
+  report(feedback: RateLimitFeedback, now: number): void {
+    const { limited, retryAfterMs, remaining, resetAt } = feedback;
+
+    if (limited || retryAfterMs !== undefined) {
+      if (now - this.lastDecreaseAt >= this.cooldownMs) {
+        this.scale = Math.max(this.scale * this.decreaseFactor, this.minScale);
+        this.lastDecreaseAt = now;
+      }
+    } else {
+      this.scale = Math.min(this.scale + this.increaseStep, 1);
+    }
+
+    if (retryAfterMs !== undefined && retryAfterMs > 0) {
+      this.backoffUntil = Math.max(this.backoffUntil, now + retryAfterMs);
+    }
+
+    if (remaining !== undefined && resetAt !== undefined && resetAt > now) {
+      this.upstream = { remaining: Math.max(remaining, 0), resetAt };
+      if (remaining <= 0) {
+        this.backoffUntil = Math.max(this.backoffUntil, resetAt);
+      }
+    }
+  }
+
+  /**
+   * Returns the windows with their limits scaled to the current effective fraction.
+   *
+   * @param {RateLimitWindow[]} windows - The configured windows.
+   * @returns {RateLimitWindow[]} Windows with limits of at least 1.
+   */
+  scaleWindows(windows: RateLimitWindow[]): RateLimitWindow[] {
+    if (this.scale === 1) {
+      return windows;
+    }
+    return windows.map(({ limit, durationMs }) => ({
+      limit: Math.max(Math.floor(limit * this.scale), 1),
+      durationMs,
+    }));
+  }
+
+  /**
+   * Milliseconds left before admissions may resume.
+   *
+   * @param {number} now - The current timestamp in milliseconds.
+   */
+  backoffRemaining(now: number): number {
+    return Math.max(this.backoffUntil - now, 0);
+  }
+
+  /**
+   * Milliseconds left before the upstream quota resets, when none of it is left.
+   *
+   * @param {number} now - The current timestamp in milliseconds.
+   * @returns {number} The time until the reset, or 0 while quota is left or none was reported.
+   */
+  quotaResetRemaining(now: number): number {
+    return this.upstream && this.upstream.remaining <= 0
+      ? Math.max(this.upstream.resetAt - now, 0)
+      : 0;
+  }
+
+  /**
+   * Caps a number of admissions to the quota the upstream reported as remaining.
+   *
+   * @param {number} wanted - Number of admissions requested.
+   * @param {number} now - The current timestamp in milliseconds.
+   * @returns {number} The number of admissions the upstream still allows.
+   */
+  cap(wanted: number, now: number): number {
+    if (this.upstream && now >= this.upstream.resetAt) {
+      this.upstream = null;
+    }
+    return this.upstream ? Math.min(wanted, this.upstream.remaining) : wanted;
+  }
+
+  /**
+   * Deducts admissions from the remaining upstream quota.
+   *
+   * @param {number} admitted - Number of admitted requests.
+   */
+  recordAdmissions(admitted: number): void {
+    if (this.upstream) {
+      this.upstream.remaining = Math.max(this.upstream.remaining - admitted, 0);
+    }
+  }
+
+  /**
+   * Returns the state to persist, e.g. across restarts.
+   *
+   * @returns {AdaptiveState} The scale, backoff and upstream quota.
+   */
+  exportState(): AdaptiveState {
+    return {
+      scale: this.scale,
+      backoffUntil: this.backoffUntil,
+      upstream: this.upstream && { ...this.upstream },
+    };
+  }
+
+  /**
+   * Restores a state returned by `exportState`.
+   *
+   * @param {AdaptiveState} state - The state to restore.
+   */
+  importState(state: AdaptiveState): void {
+    this.scale = Math.min(Math.max(state.scale, this.minScale), 1);
+    this.backoffUntil = state.backoffUntil;
+    this.upstream = state.upstream && { ...state.upstream };
+  }
+
+  status(now: number): AdaptiveStatus {
+    return {
+      scale: this.scale,
+      backoffMs: this.backoffRemaining(now),
+      upstreamRemaining:
+        this.upstream && now < this.upstream.resetAt
+          ? this.upstream.remaining
+          : null,
+    };
+  }
+}
+
+export default AdaptiveController;
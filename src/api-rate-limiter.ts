@@ -1,27 +1,99 @@
-import Deque from "double-ended-queue";
+import { EventEmitter } from "events";
 import { CONSTANTS } from "./constants";
-import { InvalidOptionsError, QueueFullError } from "./errors";
 import {
+  CircuitOpenError,
+  InvalidOptionsError,
+  InvalidStateError,
+  LimiterShutdownError,
+  QueueFullError,
+  QueueTimeoutError,
+  RequestAbortedError,
+  RequestDroppedError,
+  RetryFailedError,
+} from "./errors";
+import {
+  AcquireResult,
+  AddRequestOptions,
   ApiRateLimiterOptions,
   ApiRequest,
+  Clock,
+  LaneOptions,
+  LimiterLimits,
+  LimiterRunState,
+  LimiterSnapshot,
+  LimiterState,
+  LimitingStrategy,
+  OverflowPolicy,
   QueueItem,
+  SharedRequest,
+  RateLimitFeedback,
+  RateLimiterEvents,
   RateLimiterStatus,
+  RateLimitStore,
+  RateLimitWindow,
+  RequestOutcome,
+  Reservation,
+  RetryOptions,
+  ShareOptions,
+  ShutdownOptions,
+  TimerHandle,
+  UpdatableOptions,
+  WindowStatus,
 } from "./type";
 import AsyncLock from "./async-lock";
+import LaneQueue from "./lane-queue";
+import { createStrategy } from "./strategies";
+import { MemoryStore } from "./stores";
+import AdaptiveController from "./adaptive-controller";
+import CircuitBreaker from "./circuit-breaker";
+import { backoffDelay, resolveRetryPolicy } from "./retry-policy";
+import { systemClock } from "./clock";
 
 /**
- * A rate limiter for API requests that limits the number of requests per second and per minute.
- * It uses a token bucket algorithm with separate counters for per-second and per-minute limits.
+ * A rate limiter for API requests that enforces any number of time windows together,
+ * e.g. "10 per second, 500 per 15 minutes and 20,000 per day".
+ * Admission within each window is decided by a pluggable limiting strategy (token bucket by default),
+ * and a request is admitted only when every window admits it.
+ * The lifecycle of every request is observable through the events listed in `RateLimiterEvents`.
  */
-class ApiRateLimiter<T> {
-  private timer: NodeJS.Timeout | null = null;
-  private queue: Deque<QueueItem<T>> = new Deque<QueueItem<T>>();
-  private mpsCounter: number;
-  private mpmCounter: number;
-  private maxPerSecond: number;
-  private maxPerMinute: number;
+class ApiRateLimiter<T> extends EventEmitter<RateLimiterEvents<T>> {
+  private timer: TimerHandle | null = null;
+  private ticking = false;
+  private queue: LaneQueue<QueueItem<T>>;
+  private defaultLane: string;
+  private windows: RateLimitWindow[];
+  private strategy: LimitingStrategy;
+  private store: RateLimitStore;
+  private storeKey: string;
+  private adaptive: AdaptiveController;
+  private retry?: RetryOptions;
+  private feedback?: (
+    outcome: RequestOutcome<T>
+  ) => RateLimitFeedback | undefined;
   private maxQueueSize: number;
-  private lastMpmRefill: number = Date.now();
+  private maxConcurrent: number;
+  private overflow: OverflowPolicy;
+  private overflowWaitMs: number;
+  private spaceWaiters: {
+    grant: () => void;
+    fail: (error: unknown) => void;
+  }[] = [];
+  private inFlight = 0;
+  private backoffs = new Map<QueueItem<T>, () => void>();
+  private runState: LimiterRunState = "running";
+  private shutdownMode: ShutdownOptions["mode"] | null = null;
+  private adding = 0;
+  private cacheTtlMs: number;
+  /** Source of time and timers of the limiter, also used by adapters that read time or wait on its behalf */
+  public readonly clock: Clock;
+  private shared = new Map<string, SharedRequest<T>>();
+  private results = new Map<string, { result: T; expiresAt: number }>();
+  private name: string;
+  private parent?: ApiRateLimiter<any>;
+  private share: Required<ShareOptions> = { reserved: 0, max: 1 };
+  private children = new Map<string, ApiRateLimiter<any>>();
+  private breaker: CircuitBreaker | null;
+  private probes = new Set<QueueItem<T>>();
   private static readonly Constants = CONSTANTS;
   private tokenLock = new AsyncLock();
 
@@ -30,35 +102,125 @@ class ApiRateLimiter<T> {
    * @param {ApiRateLimiterOptions} options - Configuration options for the rate limiter.
    *   - `maxPerSecond`: Maximum number of API requests allowed per second.
    *   - `maxPerMinute`: Maximum number of API requests allowed per minute.
-   *   - `maxQueueSize`: Maximum size of the request queue.
+   *   - `windows`: Arbitrary windows enforced together; takes precedence over `maxPerSecond` and `maxPerMinute`.
+   *   - `strategy`: Limiting algorithm applied to every window, by name or as a custom implementation.
+   *   - `maxQueueSize`: Maximum size of the request queue, across all lanes.
+   *   - `maxConcurrent`: Maximum number of requests executing at the same time.
+   *   - `overflow`: What happens to a request that finds the queue full, by policy name or as a custom handler.
+   *   - `overflowWaitMs`: Maximum time a caller waits for space under the "wait-for-space" policy.
+   *   - `lanes`: Named queue lanes from highest to lowest priority, sharing admissions by weight.
+   *   - `defaultLane`: Lane used by requests that do not name one.
+   *   - `store`: Backend holding the token state, shared with other limiters using the same `storeKey`.
+   *   - `storeKey`: Key of the token state in the store.
+   *   - `feedback`: Translates request outcomes into upstream rate limit feedback (e.g. 429 and `Retry-After`).
+   *   - `adaptive`: AIMD tuning of the effective limits in response to feedback.
+   *   - `retry`: Retry policy for failed requests; every retry is queued again and consumes tokens.
+   *   - `cacheTtlMs`: Time the result of a request with a `dedupeKey` is reused for later requests with the same key.
+   *   - `clock`: Source of time and timers, e.g. a `VirtualClock` to run the limiter in simulated time.
+   *   - `circuitBreaker`: Thresholds at which requests to a failing upstream fail fast instead of taking tokens.
+   *   - `parent`: Limiter whose windows, and those of its ancestors, every admission also takes tokens from.
+   *   - `share`: Fractions of the parent's windows reserved for this limiter and the most it may take.
+   *   - `name`: Name of the limiter among the children of its parent and in the status.
    * @param {(error: Error | unknown) => void} [errorHandler=console.error] - Optional error handler function that will be called when an API request fails.
    *
-   * @throws {InvalidOptionsError} If options are invalid (e.g., maxPerSecond > maxPerMinute or non-positive values).
+   * @throws {InvalidOptionsError} If options are invalid (e.g., maxPerSecond > maxPerMinute, non-positive values, inconsistent windows, an unknown strategy,
+   *   invalid lanes or an invalid share of the parent).
    */
   constructor(
     options: ApiRateLimiterOptions,
     private errorHandler: (error: Error | unknown) => void = console.error
   ) {
+    super();
     const defaults = {
       maxPerSecond: ApiRateLimiter.Constants.DEFAULT_MAX_PER_SECOND,
       maxPerMinute: ApiRateLimiter.Constants.DEFAULT_MAX_PER_MINUTE,
       maxQueueSize: ApiRateLimiter.Constants.DEFAULT_MAX_QUEUE_SIZE,
+      maxConcurrent: Infinity,
     };
-    const { maxPerSecond, maxPerMinute, maxQueueSize } = {
+    const {
+      maxPerSecond,
+      maxPerMinute,
+      windows,
+      strategy,
+      maxQueueSize,
+      maxConcurrent,
+      overflow = "reject-new",
+      overflowWaitMs = Infinity,
+      lanes,
+      defaultLane,
+      store,
+      storeKey,
+      feedback,
+      adaptive,
+      retry,
+      cacheTtlMs = 0,
+      clock = systemClock,
+      circuitBreaker,
+      parent,
+      share,
+      name,
+    } = {
       ...defaults,
       ...options,
     };
 
-    if (maxPerSecond > maxPerMinute || maxPerSecond <= 0 || maxPerMinute <= 0) {
-      throw new InvalidOptionsError();
+    this.windows = ApiRateLimiter.validateWindows(
+      windows ?? [
+        {
+          limit: maxPerSecond,
+          durationMs: ApiRateLimiter.Constants.SECOND_IN_MS,
+        },
+        {
+          limit: maxPerMinute,
+          durationMs: ApiRateLimiter.Constants.MINUTE_IN_MS,
+        },
+      ]
+    );
+
+    const resolvedLanes = ApiRateLimiter.validateLanes(
+      lanes ?? [{ name: ApiRateLimiter.Constants.DEFAULT_LANE }]
+    );
+    this.defaultLane = defaultLane ?? resolvedLanes[0].name;
+    this.queue = new LaneQueue<QueueItem<T>>(resolvedLanes);
+    if (!this.queue.has(this.defaultLane)) {
+      throw new InvalidOptionsError(
+        `default lane "${this.defaultLane}" is not a configured lane`
+      );
     }
 
-    this.maxPerSecond = maxPerSecond;
-    this.maxPerMinute = maxPerMinute;
+    ApiRateLimiter.validateCapacity(maxQueueSize, maxConcurrent);
     this.maxQueueSize = maxQueueSize;
-
-    this.mpsCounter = maxPerSecond;
-    this.mpmCounter = maxPerMinute;
+    this.maxConcurrent = maxConcurrent;
+    ApiRateLimiter.validateOverflow(overflow);
+    this.overflow = overflow;
+    if (Number.isNaN(overflowWaitMs) || overflowWaitMs < 0) {
+      throw new InvalidOptionsError(
+        "overflowWaitMs must be a non-negative number"
+      );
+    }
+    this.overflowWaitMs = overflowWaitMs;
+    this.strategy = createStrategy(strategy);
+    this.store = store ?? new MemoryStore();
+    this.storeKey = storeKey ?? ApiRateLimiter.Constants.DEFAULT_STORE_KEY;
+    this.feedback = feedback;
+    if (retry) {
+      resolveRetryPolicy(retry);
+      this.retry = retry;
+    }
+    ApiRateLimiter.validateCacheTtl(cacheTtlMs);
+    this.cacheTtlMs = cacheTtlMs;
+    this.clock = clock;
+    this.adaptive = new AdaptiveController(
+      adaptive,
+      this.windows[0].durationMs
+    );
+    this.breaker = circuitBreaker ? new CircuitBreaker(circuitBreaker) : null;
+    this.name = name ?? this.storeKey;
+    if (parent) {
+      this.attachTo(parent, share ?? {});
+    } else if (share) {
+      throw new InvalidOptionsError("share requires a parent");
+    }
   }
 
   /**
@@ -66,44 +228,552 @@ class ApiRateLimiter<T> {
    * The request will be executed when tokens are available based on the current rate limits.
    *
    * @param {ApiRequest<T>} request - The API request function to be executed. It must return a Promise.
+   * @param {AddRequestOptions} [options] - Per-request options.
+   *   - `lane`: Name of the queue lane to wait in (default: the limiter's default lane).
+   *   - `signal`: An `AbortSignal` that removes the request from the queue while it waits.
+   *   - `maxWaitMs`: Maximum time the request may wait in the queue, per attempt.
+   *   - `retry`: Retry policy merged over the limiter's `retry` option, or `false` to disable retries.
+   *   - `cost`: Number of tokens every attempt takes from every window (default: 1).
+   *   - `actualCost`: Returns the cost actually charged for an attempt; the difference to `cost` is charged or refunded.
+   *   - `feedback`: Translates the outcome of every attempt into upstream feedback instead of the limiter's `feedback` option.
+   *   - `dedupeKey`: Requests with the same key share one queue slot and one execution while pending.
+   *   - `cacheTtlMs`: Time the result of a keyed request is reused, overriding the limiter's `cacheTtlMs`.
+   *   - `overflow`: What happens when the queue is full, overriding the limiter's `overflow`.
    * @returns {Promise<T>} A promise that resolves with the API response or rejects if the queue is full or the request fails.
    *
-   * @throws {QueueFullError} When the internal request queue has reached its maximum capacity.
+   * @throws {QueueFullError} When the internal request queue has reached its maximum capacity and the overflow policy
+   *   does not make room, or no space frees up within `overflowWaitMs`.
+   * @throws {RequestDroppedError} When the request is dropped from the full queue to make room for a newer request.
+   * @throws {CircuitOpenError} When the circuit breaker is open, or opens while the request is queued for its first attempt.
+   * @throws {InvalidOptionsError} When the requested lane does not exist, `maxWaitMs` or `cacheTtlMs` is not a non-negative number, `cost` is not a positive integer, or the retry or overflow policy is invalid.
+   * @throws {RequestAbortedError} When `signal` is aborted before the request is admitted or while it waits for a retry.
+   * @throws {QueueTimeoutError} When the request is not admitted within `maxWaitMs`.
+   * @throws {RetryFailedError} When the request failed after more than one attempt, or the circuit opens while it waits for a retry; carries every attempt.
+   * @throws {LimiterShutdownError} When the limiter is shutting down, or shuts down in "reject" mode while the request waits.
    */
-  public async addRequest(request: ApiRequest<T>): Promise<T> {
-    if (this.queue.length >= this.maxQueueSize) {
-      throw new QueueFullError();
+  public async addRequest(
+    request: ApiRequest<T>,
+    options: AddRequestOptions<T> = {}
+  ): Promise<T> {
+    if (this.isShutDown()) {
+      throw new LimiterShutdownError();
+    }
+    const lane = options.lane ?? this.defaultLane;
+    const {
+      signal,
+      maxWaitMs,
+      cost = 1,
+      actualCost,
+      feedback,
+      dedupeKey,
+      cacheTtlMs,
+    } = options;
+    if (!this.queue.has(lane)) {
+      throw new InvalidOptionsError(`unknown lane "${lane}"`);
+    }
+    if (
+      maxWaitMs !== undefined &&
+      (!Number.isFinite(maxWaitMs) || maxWaitMs < 0)
+    ) {
+      throw new InvalidOptionsError("maxWaitMs must be a non-negative number");
+    }
+    ApiRateLimiter.validateCost(cost);
+    if (cacheTtlMs !== undefined) {
+      ApiRateLimiter.validateCacheTtl(cacheTtlMs);
+    }
+    if (options.overflow !== undefined) {
+      ApiRateLimiter.validateOverflow(options.overflow);
+    }
+    if (dedupeKey !== undefined) {
+      return this.addDeduplicated(dedupeKey, request, options);
+    }
+    const retry =
+      options.retry === false || (!options.retry && !this.retry)
+        ? null
+        : resolveRetryPolicy({ ...this.retry, ...options.retry });
+    if (signal?.aborted) {
+      throw new RequestAbortedError(signal.reason);
+    }
+    const circuitError = this.circuitError();
+    if (circuitError) {
+      throw circuitError;
+    }
+    let overflow = options.overflow ?? this.overflow;
+    this.adding++;
+    let release: (() => void) | undefined;
+    try {
+      release = await this.tokenLock.acquire();
+      const full = (await this.waitingWith(cost)) > this.maxQueueSize;
+      if (full && typeof overflow === "function") {
+        const decision = overflow({
+          request,
+          lane,
+          cost,
+          queueSize: this.queue.length,
+        });
+        if (typeof decision !== "string") {
+          release();
+          this.adding--;
+          this.emitDrainedIfIdle();
+          return decision;
+        }
+        ApiRateLimiter.validateOverflow(decision);
+        overflow = decision;
+      }
+      if (full && overflow === "reject-new") {
+        throw this.queueFull(lane);
+      }
+      if (
+        full &&
+        (overflow === "drop-oldest" || overflow === "drop-lowest-priority")
+      ) {
+        this.dropFor(lane, overflow);
+      }
+      if (
+        overflow === "wait-for-space" &&
+        (full || this.spaceWaiters.length > 0)
+      ) {
+        release();
+        release = undefined;
+        await this.waitForSpace(lane, signal);
+        release = await this.tokenLock.acquire();
+      }
+    } catch (error) {
+      release?.();
+      this.adding--;
+      this.emitDrainedIfIdle();
+      throw error;
+    }
+    this.adding--;
+    if (this.shutdownMode === "reject") {
+      release();
+      this.emitDrainedIfIdle();
+      throw new LimiterShutdownError();
     }
-    const release = await this.tokenLock.acquire();
     try {
       return new Promise<T>((resolve, reject) => {
-        this.queue.push([request, resolve, reject]);
-        if (!this.timer) {
-          this.startTimer();
+        this.enqueue({
+          request,
+          resolve,
+          reject,
+          lane,
+          signal,
+          maxWaitMs,
+          retry,
+          attempts: [],
+          cost,
+          actualCost,
+          feedback,
+          enqueuedAt: this.clock.now(),
+        });
+      });
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Takes `cost` tokens from every window right away if they are available, without queueing.
+   * Shares the token state with queued requests but does not wait for them,
+   * which suits protecting one's own endpoints where a caller needs an immediate answer.
+   * Like queued requests, it is denied while the upstream asks to back off or its reported quota is used up.
+   *
+   * @param {number} [cost=1] - Number of tokens to take from every window.
+   * @returns {Promise<AcquireResult>} Whether the tokens were taken, when to try again and the tokens left.
+   *
+   * @throws {InvalidOptionsError} When `cost` is not a positive integer.
+   * @throws {LimiterShutdownError} When the limiter is shutting down.
+   */
+  public async tryAcquire(cost = 1): Promise<AcquireResult> {
+    ApiRateLimiter.validateCost(cost);
+    if (this.isShutDown()) {
+      throw new LimiterShutdownError();
+    }
+    const release = await this.tokenLock.acquire();
+    try {
+      const windows = this.adaptive.scaleWindows(this.windows);
+      const pauseMs = this.pauseRemaining();
+      const result = await this.updateState((states, now, state) => {
+        const held = this.heldBack(null, state, windows, now);
+        const retryAfterMs = Math.max(
+          pauseMs,
+          this.fits(states, windows, held, [], cost, now)
+            ? 0
+            : this.waitTime(states, windows, held, [], cost, now)
+        );
+        if (retryAfterMs === 0) {
+          this.charge(states, windows, null, cost, now);
         }
+        const { limit, remaining, resetMs } = ApiRateLimiter.mostConstrained(
+          this.describeWindows(states, now)
+        );
+        return {
+          allowed: retryAfterMs === 0,
+          retryAfterMs,
+          limit,
+          remaining,
+          resetMs,
+        };
+      });
+      if (
+        result.allowed &&
+        this.parent &&
+        (await this.parent.tryConsume([cost], this)) === 0
+      ) {
+        await this.adjustCost(-cost, null, false);
+        // An ancestor denied the request, so its most constrained window is the binding one.
+        const { limit, remaining, resetMs } = ApiRateLimiter.mostConstrained(
+          await this.parent.lineageWindows()
+        );
+        Object.assign(result, {
+          allowed: false,
+          retryAfterMs: Math.max(
+            await this.parent.admissionWait(cost, this),
+            ApiRateLimiter.Constants.MIN_TICK_INTERVAL_MS
+          ),
+          limit,
+          remaining,
+          resetMs,
+        });
+      }
+      if (result.allowed) {
+        this.adaptive.recordAdmissions(1);
+      }
+      return result;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Takes `cost` tokens from every window now, and from the windows of every ancestor, even if they are not available yet,
+   * and tells the caller when it may proceed. Requests admitted later, queued or not,
+   * wait for the reserved tokens to be paid back by the refill.
+   * The reported time is exact for the token bucket and GCRA strategies; counting strategies
+   * record the reserved tokens in their current window.
+   * It includes the backoff the upstream asked for, and the wait for a used-up upstream quota to reset.
+   *
+   * @param {number} [cost=1] - Number of tokens to take from every window.
+   * @returns {Promise<Reservation>} The reservation, whose `cancel()` returns the tokens.
+   *
+   * @throws {InvalidOptionsError} When `cost` is not a positive integer.
+   * @throws {LimiterShutdownError} When the limiter is shutting down.
+   */
+  public async reserve(cost = 1): Promise<Reservation> {
+    ApiRateLimiter.validateCost(cost);
+    if (this.isShutDown()) {
+      throw new LimiterShutdownError();
+    }
+    const release = await this.tokenLock.acquire();
+    try {
+      const { delayMs, now } = await this.book(cost, null);
+
+      let cancelled = false;
+      return {
+        cost,
+        delayMs,
+        readyAt: now + delayMs,
+        cancel: async () => {
+          if (cancelled) {
+            return;
+          }
+          cancelled = true;
+          await this.adjustCost(-cost);
+          this.wake();
+        },
+      };
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Removes cached results of requests with a `dedupeKey`, e.g. after a write made them stale.
+   * Pending requests are not affected.
+   *
+   * @param {string} [dedupeKey] - The key to remove; every cached result when omitted.
+   */
+  public clearCache(dedupeKey?: string): void {
+    if (dedupeKey === undefined) {
+      this.results.clear();
+    } else {
+      this.results.delete(dedupeKey);
+    }
+  }
+
+  /**
+   * Reports rate limit feedback from the upstream API, e.g. parsed from response headers
+   * outside of the `feedback` option.
+   * A rate limit or `retryAfterMs` shrinks the effective limits and pauses admissions,
+   * a remaining quota caps admissions until `resetAt`, and any other feedback lets the limits recover.
+   *
+   * @param {RateLimitFeedback} feedback - The signal reported by the upstream.
+   */
+  public reportFeedback(feedback: RateLimitFeedback): void {
+    const now = this.clock.now();
+    const { scale } = this.adaptive.status(now);
+    this.adaptive.report(feedback, now);
+    if (this.adaptive.status(now).scale > scale) {
+      this.wakeAll();
+    }
+  }
+
+  /**
+   * Stops admitting queued requests until `resume()` is called.
+   * Requests can still be added and wait in the queue, and requests in flight run to completion.
+   * Has no effect unless the limiter is running.
+   */
+  public pause(): void {
+    if (this.runState !== "running") {
+      return;
+    }
+    this.runState = "paused";
+    this.clearTimer();
+  }
+
+  /**
+   * Resumes admitting queued requests after `pause()`.
+   */
+  public resume(): void {
+    if (this.runState !== "paused") {
+      return;
+    }
+    this.runState = "running";
+    if (!this.queue.isEmpty()) {
+      this.startTimer();
+    }
+  }
+
+  /**
+   * Waits until the queue is empty and no request is executing or waiting for a retry.
+   * A paused limiter does not drain until it is resumed.
+   *
+   * @returns {Promise<void>} A promise that resolves once the limiter is idle.
+   */
+  public drain(): Promise<void> {
+    if (this.isIdle()) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.once("drained", () => resolve()));
+  }
+
+  /**
+   * Shuts the limiter down: further `addRequest()` calls fail fast with a `LimiterShutdownError`,
+   * and the returned promise resolves once no work is left and every timer has been cleared.
+   *
+   * @param {ShutdownOptions} [options] - Shutdown options.
+   *   - `mode`: "drain" (default) processes queued requests and pending retries first, resuming a paused limiter;
+   *     "reject" rejects them right away with a `LimiterShutdownError`. Requests in flight are awaited in both modes.
+   * @returns {Promise<void>} A promise that resolves once the limiter has shut down.
+   */
+  public async shutdown({
+    mode = "drain",
+  }: ShutdownOptions = {}): Promise<void> {
+    if (this.runState === "shut-down") {
+      return;
+    }
+    this.runState = "shutting-down";
+    this.shutdownMode = mode;
+    const error = new LimiterShutdownError();
+    this.spaceWaiters.splice(0).forEach(({ fail }) => fail(error));
+    if (mode === "reject") {
+      this.rejectPending();
+    } else if (!this.queue.isEmpty()) {
+      this.startTimer();
+    }
+    await this.drain();
+    this.runState = "shut-down";
+    this.clearTimer();
+    if (this.parent?.children.get(this.name) === this) {
+      // Releases the reservation of the limiter to its siblings.
+      this.parent.children.delete(this.name);
+      this.parent.wakeAll();
+    }
+  }
+
+  /**
+   * Exports the token state of every window and the adaptation state as a versioned, JSON-serializable snapshot,
+   * e.g. to restore it with `importState` after a restart.
+   *
+   * @returns {Promise<LimiterSnapshot>} The snapshot.
+   */
+  public async exportState(): Promise<LimiterSnapshot> {
+    const release = await this.tokenLock.acquire();
+    try {
+      const { windows, now } = await this.updateState((states, now) => ({
+        windows: Object.fromEntries(
+          this.windows.map((window, index) => [
+            window.durationMs,
+            JSON.parse(JSON.stringify(states[index])),
+          ])
+        ),
+        now,
+      }));
+      return {
+        version: ApiRateLimiter.Constants.STATE_VERSION,
+        savedAt: now,
+        strategy: this.strategy.name,
+        windows,
+        adaptive: this.adaptive.exportState(),
+      };
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Restores a snapshot returned by `exportState`, replacing the state of every window it contains.
+   * Strategy states carry wall-clock timestamps, so the time that passed since the snapshot was taken,
+   * e.g. while the process was down, counts as elapsed. Windows of other durations are ignored.
+   *
+   * @param {LimiterSnapshot} snapshot - The snapshot to restore, e.g. parsed from JSON.
+   *
+   * @throws {InvalidStateError} If the snapshot has an unsupported version or belongs to another strategy.
+   */
+  public async importState(snapshot: LimiterSnapshot): Promise<void> {
+    if (snapshot?.version !== ApiRateLimiter.Constants.STATE_VERSION) {
+      throw new InvalidStateError(
+        `unsupported version ${JSON.stringify(snapshot?.version)}`
+      );
+    }
+    if (snapshot.strategy !== this.strategy.name) {
+      throw new InvalidStateError(
+        `snapshot of strategy "${snapshot.strategy}" cannot be restored into "${this.strategy.name}"`
+      );
+    }
+    const release = await this.tokenLock.acquire();
+    try {
+      await this.store.update(this.storeKey, (stored) => {
+        const state: LimiterState = stored ?? { windows: {} };
+        this.windows.forEach(({ durationMs }) => {
+          const imported = snapshot.windows?.[durationMs];
+          if (imported !== undefined) {
+            state.windows[durationMs] = JSON.parse(JSON.stringify(imported));
+          }
+        });
+        return {
+          state,
+          result: undefined,
+          ttlMs: this.windows[this.windows.length - 1].durationMs,
+        };
+      });
+      if (snapshot.adaptive) {
+        this.adaptive.importState(snapshot.adaptive);
+      }
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Changes the limits of a running limiter, validated by the same rules as the constructor.
+   * Options left out keep their current value; `maxPerSecond` and `maxPerMinute` replace the limits
+   * of the one-second and one-minute windows, adding them if needed, unless `windows` replaces all windows.
+   *
+   * The state of a window whose duration is kept is rescaled by the strategy, so a bucket that was
+   * half empty stays half empty under the new limit. Windows of new durations start with their full capacity,
+   * and the state of removed windows is discarded. Requests already queued beyond a smaller `maxQueueSize`
+   * stay queued; new requests are rejected with a `QueueFullError` until the queue is below the new size.
+   * Emits `reconfigured` with the limits before and after the change.
+   *
+   * @param {UpdatableOptions} options - The options to change.
+   *
+   * @throws {InvalidOptionsError} If the resulting options are invalid; the limiter is left unchanged.
+   */
+  public async updateOptions(options: UpdatableOptions): Promise<void> {
+    const windows = ApiRateLimiter.validateWindows(
+      options.windows ?? this.resizeWindows(options)
+    );
+    const {
+      maxQueueSize = this.maxQueueSize,
+      maxConcurrent = this.maxConcurrent,
+    } = options;
+    ApiRateLimiter.validateCapacity(maxQueueSize, maxConcurrent);
+
+    const release = await this.tokenLock.acquire();
+    try {
+      const previous = this.limits();
+      const from = this.adaptive.scaleWindows(this.windows);
+      const to = this.adaptive.scaleWindows(windows);
+      await this.store.update(this.storeKey, (stored) => {
+        const now = this.clock.now();
+        const state: LimiterState = stored ?? { windows: {} };
+        from.forEach((window) => {
+          const index = to.findIndex(
+            ({ durationMs }) => durationMs === window.durationMs
+          );
+          const windowState = state.windows[window.durationMs];
+          if (index === -1) {
+            delete state.windows[window.durationMs];
+          } else if (windowState !== undefined) {
+            this.strategy.rescale?.(windowState, window, to[index], now);
+          }
+        });
+        // The shares of children start afresh under the new limits.
+        delete state.shares;
+        return {
+          state,
+          result: undefined,
+          ttlMs: windows[windows.length - 1].durationMs,
+        };
       });
+      this.windows = windows;
+      this.maxQueueSize = maxQueueSize;
+      this.maxConcurrent = maxConcurrent;
+      this.emitEvent("reconfigured", { previous, current: this.limits() });
     } finally {
       release();
     }
+    this.notifySpace();
+
+    // The scheduled ticks of the limiter and its descendants were timed for the previous limits.
+    this.wakeAll();
   }
 
   /**
    * Returns the current status of the rate limiter.
    *
    * @returns {RateLimiterStatus} The current status including:
+   *  - `state`: Whether the limiter is running, paused, shutting down or shut down.
    *  - `queueSize`: Number of pending requests in the queue.
-   *  - `availableRequests`: Number of requests that can be processed immediately based on current tokens.
-   *  - `mpsCounter`: Remaining tokens for the per-second limit.
-   *  - `mpmCounter`: Remaining tokens for the per-minute limit (floored).
+   *  - `lanes`: Number of pending requests in each lane.
+   *  - `inFlight`: Number of admitted requests that have not settled yet.
+   *  - `availableRequests`: Number of requests that can be processed immediately based on current tokens, including those of the ancestors.
+   *  - `windows`: Remaining tokens of each window (floored) under the effective limits and the time until it is full again,
+   *    ordered from shortest to longest.
+   *  - `mpsCounter` and `mpmCounter` (deprecated): Remaining tokens of the one-second and one-minute windows,
+   *    or of the shortest and longest windows without them.
+   *  - `adaptive`: Effective fraction of the limits, remaining backoff and remaining upstream quota.
+   *  - `circuit`: State of the circuit breaker, or `null` without one.
+   *  - `name`, `share` and `children`: Name of the limiter, its share of the parent and the status of every child limiter.
    */
   public async getStatus(): Promise<RateLimiterStatus> {
     const release = await this.tokenLock.acquire();
     try {
-      const status = {
+      const windows = await this.updateState((states, now) =>
+        this.describeWindows(states, now)
+      );
+      const status: RateLimiterStatus = {
+        state: this.runState,
         queueSize: this.queue.length,
-        availableRequests: this.calculateAvailableRequests(),
-        mpsCounter: this.mpsCounter,
-        mpmCounter: Math.floor(this.mpmCounter),
+        lanes: this.queue.status(),
+        inFlight: this.inFlight,
+        availableRequests: await this.availableFor(null),
+        windows,
+        mpsCounter: (
+          windows.find(({ durationMs }) => durationMs === 1000) ?? windows[0]
+        ).remaining,
+        mpmCounter: (
+          windows.find(({ durationMs }) => durationMs === 60000) ??
+          windows[windows.length - 1]
+        ).remaining,
+        adaptive: this.adaptive.status(this.clock.now()),
+        circuit: this.breaker?.status(this.clock.now()) ?? null,
+        name: this.name,
+        ...(this.parent && { share: { ...this.share } }),
+        children: await Promise.all(
+          [...this.children.values()].map((child) => child.getStatus())
+        ),
       };
       return status;
     } finally {
@@ -115,113 +785,1547 @@ class ApiRateLimiter<T> {
    * Ensures that the request processing loop starts by calling `timerTick` if it is not already running.
    */
   private startTimer(): void {
-    if (!this.timer) {
+    if (!this.timer && !this.ticking && this.runState !== "paused") {
       this.timerTick();
     }
   }
 
   /**
-   * Processes the request queue based on available tokens,
-   * refills token buckets, and schedules the next tick if necessary.
+   * Cancels the scheduled tick, if any.
+   */
+  private clearTimer(): void {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Moves the next tick to now, e.g. because capacity became available earlier than the scheduled tick was computed for.
+   */
+  private wake(): void {
+    if (!this.queue.isEmpty()) {
+      this.clearTimer();
+      this.startTimer();
+    }
+  }
+
+  /**
+   * Wakes the limiter and all of its descendants, except the subtree of `except`.
+   *
+   * @param {ApiRateLimiter<any>} [except] - A child whose subtree is left alone.
+   */
+  private wakeAll(except?: ApiRateLimiter<any>): void {
+    this.wake();
+    this.children.forEach((child) => {
+      if (child !== except) {
+        child.wakeAll();
+      }
+    });
+  }
+
+  /**
+   * Processes the request queue based on the capacity the strategy reports for every window,
+   * and schedules the next tick if necessary.
+   * It takes requests from the lanes in weighted order while every window has room for their cost,
+   * without exceeding `maxConcurrent` requests in flight. A request that does not fit stops the tick,
+   * so cheaper requests behind it cannot overtake it and a costly request never starves.
+   * Admitted requests are not awaited.
    *
-   * This method applies a token bucket algorithm:
-   *  - Resets `mpsCounter` every tick (per-second limit).
-   *  - Refills `mpmCounter` gradually based on the elapsed time.
-   * It processes up to min(`mpsCounter`, floor(`mpmCounter`)) requests per tick.
+   * The next tick is scheduled for the exact instant every window has room for the next request,
+   * as computed by the strategy, so requests are admitted as soon as they are eligible.
+   * Nothing is admitted while the upstream asked to back off or its reported quota is used up,
+   * and the next tick is delayed until then. When only the concurrency limit holds requests back,
+   * no timer is scheduled: the next settling request resumes the loop instead.
    */
   private async timerTick(): Promise<void> {
+    this.ticking = true;
+    this.timer = null;
     const release = await this.tokenLock.acquire();
+    let backingOff = false;
+    let waitMs: number = ApiRateLimiter.Constants.ERROR_TICK_INTERVAL_MS;
     try {
-      this.mpsCounter = this.maxPerSecond;
-      this.refillMpmCounter();
+      const freeSlots = this.maxConcurrent - this.inFlight;
+      backingOff = this.pauseRemaining() > 0;
+      const wanted = backingOff
+        ? 0
+        : this.adaptive.cap(
+            this.breaker?.cap(
+              Math.min(this.queue.length, freeSlots),
+              this.clock.now()
+            ) ?? Math.min(this.queue.length, freeSlots),
+            this.clock.now()
+          );
+      const upcoming = wanted > 0 ? this.queue.upcoming(wanted) : [];
+      const admitted =
+        upcoming.length > 0
+          ? await this.tryConsume(upcoming.map((item) => item.cost))
+          : 0;
+      // Requests aborted while the store was updating change which items are taken,
+      // so the difference between the charged and the taken costs is settled afterwards.
+      let unsettled = upcoming
+        .slice(0, admitted)
+        .reduce((sum, item) => sum + item.cost, 0);
+      for (let i = 0; i < admitted && !this.queue.isEmpty(); i++) {
+        const item = this.queue.shift()!;
+        unsettled -= item.cost;
+        item.cleanup?.();
+        if (this.breaker?.admit(this.clock.now())) {
+          this.probes.add(item);
+        }
+        this.emitEvent("dequeued", {
+          lane: item.lane,
+          attempt: item.attempts.length + 1,
+          reason: "admitted",
+          waitMs: this.clock.now() - item.enqueuedAt,
+        });
+        this.startRequest(item);
+      }
+      this.notifySpace();
+      if (unsettled !== 0) {
+        await this.adjustCost(-unsettled);
+      }
+      const [next] = this.queue.upcoming(1);
+      waitMs = next ? await this.admissionWait(next.cost) : 0;
+    } catch (error) {
+      this.handleError(error);
     } finally {
       release();
     }
 
-    const availableTokens = Math.min(
-      this.mpsCounter,
-      Math.floor(this.mpmCounter)
-    );
-    const promises: Promise<void>[] = [];
-    let processed = 0;
+    this.ticking = false;
 
-    while (!this.queue.isEmpty() && processed < availableTokens) {
-      const [request, resolve, reject] = this.queue.shift()!;
-      promises.push(this.processRequest(request, resolve, reject));
-      processed++;
+    if (this.queue.isEmpty() || this.runState === "paused") {
+      this.timer = null;
+    } else if (this.inFlight >= this.maxConcurrent) {
+      this.timer = null;
+      this.emitEvent("throttled", {
+        reason: "concurrency",
+        queueSize: this.queue.length,
+        retryInMs: null,
+      });
+    } else if (this.breaker?.cap(1, this.clock.now()) === 0) {
+      // Only a half-open circuit holds a queue; the next tick follows the settled probe.
+      this.timer = null;
+      this.emitEvent("throttled", {
+        reason: "circuit",
+        queueSize: this.queue.length,
+        retryInMs: null,
+      });
+    } else {
+      const pauseMs = this.pauseRemaining();
+      backingOff = pauseMs > 0;
+      // A strategy may round its wait down, so the next tick is never scheduled for right now.
+      const delayMs = Math.min(
+        Math.max(
+          waitMs,
+          pauseMs,
+          ApiRateLimiter.Constants.MIN_TICK_INTERVAL_MS
+        ),
+        ApiRateLimiter.Constants.MAX_TIMER_DELAY_MS
+      );
+      this.timer = this.clock.setTimeout(
+        () => this.timerTick().catch(console.error),
+        delayMs
+      );
+      this.emitEvent("throttled", {
+        reason: backingOff ? "backoff" : "rate-limit",
+        queueSize: this.queue.length,
+        retryInMs: delayMs,
+      });
     }
+  }
 
-    await Promise.allSettled(promises);
+  /**
+   * Starts an admitted request while counting it as in flight.
+   * Once it settles, its slot is handed to the next queued request right away
+   * unless a tick is already running or scheduled, or `drained` is emitted if nothing is left.
+   *
+   * @param {QueueItem<T>} item - The admitted queue item.
+   */
+  private startRequest(item: QueueItem<T>): void {
+    this.inFlight++;
+    this.processRequest(item)
+      .catch(console.error)
+      .finally(() => {
+        this.inFlight--;
+        if (!this.queue.isEmpty()) {
+          this.startTimer();
+        } else {
+          this.emitDrainedIfIdle();
+        }
+      });
+  }
 
-    if (!this.queue.isEmpty()) {
-      this.timer = setTimeout(
-        () => this.timerTick().catch(console.error),
-        1000
-      );
-    } else {
-      this.timer = null;
+  /**
+   * Processes a single API request that has already been admitted.
+   * The actual cost of the attempt is reconciled first when the item reports one.
+   * The outcome is passed to the `feedback` of the item or of the limiter; successes without feedback let the limits recover.
+   * A failure is retried according to the retry policy of the item, otherwise the error handler is invoked.
+   *
+   * @param {QueueItem<T>} item - The admitted queue item.
+   */
+  private async processRequest(item: QueueItem<T>): Promise<void> {
+    const startedAt = this.clock.now();
+    const attempt = item.attempts.length + 1;
+    const waitMs = startedAt - item.enqueuedAt;
+    this.emitEvent("started", { lane: item.lane, attempt, waitMs });
+
+    let outcome: RequestOutcome<T>;
+    try {
+      outcome = { ok: true, result: await item.request() };
+    } catch (error) {
+      outcome = { ok: false, error };
+    }
+    const durationMs = this.clock.now() - startedAt;
+    this.recordCircuit(item, outcome);
+    await this.reconcileCost(item, outcome);
+
+    try {
+      const feedback = (item.feedback ?? this.feedback)?.(outcome);
+      if (feedback || outcome.ok) {
+        this.reportFeedback(feedback ?? {});
+      }
+    } catch (feedbackError) {
+      this.handleError(feedbackError);
+    }
+
+    if (outcome.ok) {
+      this.emitEvent("succeeded", {
+        lane: item.lane,
+        attempt,
+        result: outcome.result,
+        waitMs,
+        durationMs,
+      });
+      item.resolve(outcome.result);
+      return;
+    }
+    const willRetry = this.shouldRetry(item, outcome.error);
+    this.emitEvent("failed", {
+      lane: item.lane,
+      attempt,
+      error: outcome.error,
+      waitMs,
+      durationMs,
+      willRetry,
+    });
+    if (willRetry) {
+      this.scheduleRetry(item, outcome.error);
+      return;
     }
+
+    const error =
+      item.attempts.length > 0
+        ? new RetryFailedError(
+            [
+              ...item.attempts,
+              {
+                attempt: item.attempts.length + 1,
+                error: outcome.error,
+                failedAt: this.clock.now(),
+                delayMs: null,
+              },
+            ],
+            outcome.error
+          )
+        : outcome.error;
+    this.handleError(error);
+    item.reject(error);
   }
 
   /**
-   * Processes a single API request.
-   * Decrements the available tokens (`mpsCounter` and `mpmCounter`) before executing the API request.
-   * If the request fails, the error handler is invoked.
+   * Charges or refunds the difference between the estimated and the actual cost of an attempt,
+   * when the item reports an actual cost.
    *
-   * @param {ApiRequest<T>} request - The API request function that returns a Promise.
-   * @param {(value: T) => void} resolve - The promise resolve function.
-   * @param {(reason?: any) => void} reject - The promise reject function.
+   * @param {QueueItem<T>} item - The item whose attempt completed.
+   * @param {RequestOutcome<T>} outcome - The outcome of the attempt.
    */
-  private async processRequest(
-    request: ApiRequest<T>,
-    resolve: (value: T) => void,
-    reject: (reason?: any) => void
+  private async reconcileCost(
+    item: QueueItem<T>,
+    outcome: RequestOutcome<T>
   ): Promise<void> {
-    const release = await this.tokenLock.acquire();
     try {
-      this.mpsCounter--;
-      this.mpmCounter--;
-    } finally {
-      release();
+      const actual = item.actualCost?.(outcome);
+      if (actual === undefined || actual === item.cost) {
+        return;
+      }
+      if (!Number.isInteger(actual) || actual < 0) {
+        throw new InvalidOptionsError(
+          "actualCost must return a non-negative integer"
+        );
+      }
+      await this.adjustCost(actual - item.cost);
+      if (actual < item.cost) {
+        this.wake();
+      }
+    } catch (error) {
+      this.handleError(error);
     }
+  }
 
+  /**
+   * Decides whether a failed attempt is retried: the item must have a retry policy,
+   * attempts left and an error the policy considers retryable.
+   *
+   * @param {QueueItem<T>} item - The item whose attempt failed.
+   * @param {unknown} error - The error of the attempt.
+   * @returns {boolean} `true` if the item should be retried.
+   */
+  private shouldRetry(item: QueueItem<T>, error: unknown): boolean {
+    const attempt = item.attempts.length + 1;
+    if (!item.retry || attempt >= item.retry.maxAttempts) {
+      return false;
+    }
     try {
-      const result = await request();
-      resolve(result);
-    } catch (error) {
-      try {
-        this.errorHandler(error);
-      } catch (handlerError) {
-        console.error("Error handling failure:", handlerError);
-      }
-      reject(error);
+      return item.retry.retryable(error, attempt);
+    } catch (predicateError) {
+      this.handleError(predicateError);
+      return false;
     }
   }
 
   /**
-   * Refills the per-minute token bucket based on the elapsed time since the last refill.
-   * The refill amount is proportional to the elapsed time relative to one minute.
-   * Ensures that `mpmCounter` does not exceed the maximum allowed tokens.
+   * Records a failed attempt and queues the item again once its backoff has elapsed,
+   * so the retry waits for tokens like any other request.
+   * Aborting the signal of the item during the backoff rejects it right away,
+   * and so does a shutdown in "reject" mode.
+   *
+   * @param {QueueItem<T>} item - The item to retry.
+   * @param {unknown} error - The error of the failed attempt.
+   */
+  private scheduleRetry(item: QueueItem<T>, error: unknown): void {
+    const attempt = item.attempts.length + 1;
+    const delayMs = backoffDelay(item.retry!, attempt);
+    item.attempts.push({ attempt, error, failedAt: this.clock.now(), delayMs });
+
+    const cancel = () => {
+      this.clock.clearTimeout(backoffTimer);
+      item.signal?.removeEventListener("abort", onAbort);
+      this.backoffs.delete(item);
+    };
+    const onAbort = () => {
+      cancel();
+      item.reject(new RequestAbortedError(item.signal?.reason));
+      this.emitDrainedIfIdle();
+    };
+    const backoffTimer = this.clock.setTimeout(() => {
+      cancel();
+      item.enqueuedAt = this.clock.now();
+      this.enqueue(item);
+    }, delayMs);
+    item.signal?.addEventListener("abort", onAbort, { once: true });
+    this.backoffs.set(item, cancel);
+  }
+
+  /**
+   * Pushes an item to the back of its lane and makes sure the processing loop runs.
+   * An item whose signal is already aborted is rejected instead.
+   * Retries are queued here too and never meet the overflow policy, even beyond `maxQueueSize`,
+   * since dropping them would fail a request that was already admitted once.
+   *
+   * @param {QueueItem<T>} item - The item to queue.
+   */
+  private enqueue(item: QueueItem<T>): void {
+    const circuitError = this.circuitError();
+    const error = item.signal?.aborted
+      ? new RequestAbortedError(item.signal.reason)
+      : circuitError && this.retryError(item, circuitError);
+    if (error) {
+      item.reject(error);
+      this.emitDrainedIfIdle();
+      return;
+    }
+    this.watchQueuedItem(item);
+    this.queue.push(item.lane, item);
+    this.emitEvent("enqueued", {
+      lane: item.lane,
+      attempt: item.attempts.length + 1,
+      queueSize: this.queue.length,
+    });
+    if (!this.timer) {
+      this.startTimer();
+    }
+  }
+
+  /**
+   * Serves a request with a dedupe key from the cache while its result is fresh,
+   * joins it to the pending request with the same key, or queues it as that key's request.
+   * Joined callers share the outcome of the queued request, which runs with the lane, cost and retry policy of the first caller.
+   * The `signal` and `maxWaitMs` of every caller, the first one included, only stop that caller from waiting for it.
+   *
+   * @param {string} key - The dedupe key.
+   * @param {ApiRequest<T>} request - The API request function to be executed.
+   * @param {AddRequestOptions} options - Per-request options.
+   * @returns {Promise<T>} A promise that resolves with the shared result.
    */
-  private refillMpmCounter(): void {
-    const now = Date.now();
-    const elapsed = now - this.lastMpmRefill;
-    const tokensToAdd = (elapsed / 60000) * this.maxPerMinute;
-    this.mpmCounter = Math.min(
-      this.mpmCounter + tokensToAdd,
-      this.maxPerMinute
+  private addDeduplicated(
+    key: string,
+    request: ApiRequest<T>,
+    options: AddRequestOptions<T>
+  ): Promise<T> {
+    const cached = this.results.get(key);
+    if (cached && cached.expiresAt > this.clock.now()) {
+      return Promise.resolve(cached.result);
+    }
+    this.results.delete(key);
+
+    const pending = this.shared.get(key);
+    if (pending) {
+      return this.joinShared(key, pending, options);
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(new RequestAbortedError(options.signal.reason));
+    }
+
+    const cacheTtlMs = options.cacheTtlMs ?? this.cacheTtlMs;
+    const controller = new AbortController();
+    const shared = {
+      controller,
+      callers: 0,
+      started: false,
+    } as SharedRequest<T>;
+    shared.promise = this.addRequest(
+      () => {
+        shared.started = true;
+        return request();
+      },
+      {
+        ...options,
+        dedupeKey: undefined,
+        signal: controller.signal,
+        maxWaitMs: undefined,
+      }
     );
-    this.lastMpmRefill = now;
+    this.shared.set(key, shared);
+    shared.promise
+      .then(
+        (result) => {
+          if (cacheTtlMs > 0) {
+            this.cacheResult(key, result, cacheTtlMs);
+          }
+        },
+        () => undefined
+      )
+      .finally(() => {
+        if (this.shared.get(key) === shared) {
+          this.shared.delete(key);
+        }
+      });
+    return this.joinShared(key, shared, options);
   }
 
   /**
-   * Calculates the number of available requests that can be processed immediately,
-   * based on the current state of the token buckets.
+   * Follows the shared request of a dedupe key until the caller's `signal` aborts,
+   * or its `maxWaitMs` elapses before the request is admitted.
+   * When the last caller stops waiting before admission, the request leaves the queue.
    *
-   * @returns {number} The minimum of `mpsCounter` and the floored value of `mpmCounter`.
+   * @param {string} key - The dedupe key.
+   * @param {SharedRequest<T>} shared - The request queued for the key.
+   * @param {AddRequestOptions} options - Per-request options of the caller.
+   * @returns {Promise<T>} A promise that settles like the shared request unless the caller stops waiting first.
    */
-  private calculateAvailableRequests(): number {
-    return Math.min(this.mpsCounter, Math.floor(this.mpmCounter));
+  private joinShared(
+    key: string,
+    shared: SharedRequest<T>,
+    { signal, maxWaitMs }: AddRequestOptions<T>
+  ): Promise<T> {
+    shared.callers++;
+    if (!signal && maxWaitMs === undefined) {
+      return shared.promise;
+    }
+
+    const leave = new AbortController();
+    leave.signal.addEventListener(
+      "abort",
+      () => {
+        shared.callers--;
+        if (shared.callers === 0 && !shared.started) {
+          if (this.shared.get(key) === shared) {
+            this.shared.delete(key);
+          }
+          shared.controller.abort();
+        }
+      },
+      { once: true }
+    );
+    const onAbort = () => leave.abort(new RequestAbortedError(signal?.reason));
+    const waitTimer =
+      maxWaitMs === undefined || shared.started
+        ? undefined
+        : this.clock.setTimeout(() => {
+            if (!shared.started) {
+              leave.abort(new QueueTimeoutError(maxWaitMs));
+            }
+          }, maxWaitMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    if (signal?.aborted) {
+      onAbort();
+    }
+
+    return ApiRateLimiter.untilAborted(shared.promise, leave.signal).finally(
+      () => {
+        if (waitTimer) {
+          this.clock.clearTimeout(waitTimer);
+        }
+        signal?.removeEventListener("abort", onAbort);
+      }
+    );
+  }
+
+  /**
+   * Caches the result of a keyed request, dropping cached results that have expired.
+   */
+  private cacheResult(key: string, result: T, ttlMs: number): void {
+    const now = this.clock.now();
+    this.results.forEach((cached, cachedKey) => {
+      if (cached.expiresAt <= now) {
+        this.results.delete(cachedKey);
+      }
+    });
+    this.results.set(key, { result, expiresAt: now + ttlMs });
+  }
+
+  /**
+   * Passes an error to the error handler, guarding against failures of the handler itself.
+   *
+   * @param {Error | unknown} error - The error to report.
+   */
+  private handleError(error: Error | unknown): void {
+    try {
+      this.errorHandler(error);
+    } catch (handlerError) {
+      console.error("Error handling failure:", handlerError);
+    }
+  }
+
+  /**
+   * Emits an event, passing errors thrown by listeners to the error handler
+   * so that a faulty listener cannot break the processing loop.
+   *
+   * @param {E} event - Name of the event.
+   * @param {...RateLimiterEvents<T>[E]} args - Listener arguments of the event.
+   */
+  private emitEvent<E extends keyof RateLimiterEvents<T>>(
+    event: E,
+    ...args: RateLimiterEvents<T>[E]
+  ): void {
+    try {
+      // The conditional parameter type of `emit` cannot be resolved for a generic event name.
+      this.emit(event, ...(args as any));
+    } catch (listenerError) {
+      this.handleError(listenerError);
+    }
+  }
+
+  /**
+   * Emits `drained` once the queue is empty and no request is executing or waiting for a retry.
+   */
+  private emitDrainedIfIdle(): void {
+    if (this.isIdle()) {
+      this.emitEvent("drained");
+    }
+  }
+
+  /**
+   * Whether the queue is empty and no request is being added, executing or waiting for a retry.
+   */
+  private isIdle(): boolean {
+    return (
+      this.adding === 0 &&
+      this.queue.isEmpty() &&
+      this.inFlight === 0 &&
+      this.backoffs.size === 0
+    );
+  }
+
+  /**
+   * Whether `shutdown()` has been called.
+   */
+  private isShutDown(): boolean {
+    return this.runState === "shutting-down" || this.runState === "shut-down";
+  }
+
+  /**
+   * Rejects every queued request and every request waiting for a retry with a `LimiterShutdownError`.
+   */
+  private rejectPending(): void {
+    this.clearTimer();
+    const error = new LimiterShutdownError();
+    this.rejectQueued(error, "shutdown");
+    this.backoffs.forEach((cancel, item) => {
+      cancel();
+      item.reject(error);
+    });
+    this.emitDrainedIfIdle();
+  }
+
+  /**
+   * Emits `rejected` for a request that finds the queue full and returns the error to reject it with.
+   *
+   * @param {string} lane - Lane of the rejected request.
+   * @returns {QueueFullError} The error.
+   */
+  private queueFull(lane: string): QueueFullError {
+    const error = new QueueFullError();
+    this.emitEvent("rejected", {
+      lane,
+      queueSize: this.queue.length,
+      error,
+    });
+    return error;
+  }
+
+  /**
+   * Makes room in the full queue for a new request by rejecting a queued one with a `RequestDroppedError`.
+   *
+   * @param {string} lane - Lane of the new request.
+   * @param {"drop-oldest" | "drop-lowest-priority"} policy - Which queued request to drop.
+   *
+   * @throws {QueueFullError} If no queued request may be dropped for the new one.
+   */
+  private dropFor(
+    lane: string,
+    policy: "drop-oldest" | "drop-lowest-priority"
+  ): void {
+    const lanes = this.queue.status().map(({ name }) => name);
+    let victim: QueueItem<T> | undefined;
+    if (policy === "drop-oldest") {
+      for (const name of lanes) {
+        const item = this.queue.front(name);
+        if (item && (!victim || item.enqueuedAt < victim.enqueuedAt)) {
+          victim = item;
+        }
+      }
+    } else {
+      for (const name of lanes.slice(lanes.indexOf(lane) + 1).reverse()) {
+        victim = this.queue.back(name);
+        if (victim) {
+          break;
+        }
+      }
+    }
+    if (!victim) {
+      throw this.queueFull(lane);
+    }
+
+    this.queue.remove(victim.lane, victim);
+    victim.cleanup?.();
+    this.emitEvent("dequeued", {
+      lane: victim.lane,
+      attempt: victim.attempts.length + 1,
+      reason: "dropped",
+      waitMs: this.clock.now() - victim.enqueuedAt,
+    });
+    victim.reject(new RequestDroppedError(policy));
+  }
+
+  /**
+   * Waits until the queue has room for one more request, after the callers that started waiting earlier.
+   *
+   * @param {string} lane - Lane of the waiting request.
+   * @param {AbortSignal} [signal] - Signal that stops waiting.
+   *
+   * @throws {QueueFullError} If no space frees up within `overflowWaitMs`.
+   * @throws {RequestAbortedError} If `signal` aborts while waiting.
+   * @throws {LimiterShutdownError} If the limiter shuts down while waiting.
+   */
+  private waitForSpace(lane: string, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RequestAbortedError(signal.reason));
+        return;
+      }
+      let waitTimer: TimerHandle | undefined;
+      const waiter = {
+        grant: () => {
+          cleanup();
+          resolve();
+        },
+        fail: (error: unknown) => {
+          cleanup();
+          reject(error);
+        },
+      };
+      const remove = (error: unknown) => {
+        this.spaceWaiters.splice(this.spaceWaiters.indexOf(waiter), 1);
+        waiter.fail(error);
+      };
+      const onAbort = () => remove(new RequestAbortedError(signal?.reason));
+      const cleanup = () => {
+        if (waitTimer) {
+          this.clock.clearTimeout(waitTimer);
+        }
+        signal?.removeEventListener("abort", onAbort);
+      };
+
+      if (this.overflowWaitMs !== Infinity) {
+        waitTimer = this.clock.setTimeout(
+          () => remove(this.queueFull(lane)),
+          this.overflowWaitMs
+        );
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.spaceWaiters.push(waiter);
+    });
+  }
+
+  /**
+   * Counts the requests that would wait in the queue if one more request of the given cost joined it:
+   * the queued requests and the new one, less those the limits admit right away in queue order.
+   * The windows are only read when the queue would otherwise be full. Must be called with the token lock held.
+   *
+   * @param {number} cost - Cost of the new request.
+   * @returns {Promise<number>} The number of waiting requests.
+   */
+  private async waitingWith(cost: number): Promise<number> {
+    const waiting = this.queue.length + 1;
+    if (
+      waiting <= this.maxQueueSize ||
+      this.runState !== "running" ||
+      this.pauseRemaining() > 0
+    ) {
+      return waiting;
+    }
+    const now = this.clock.now();
+    const slots = Math.min(
+      waiting,
+      this.adaptive.cap(
+        this.breaker?.cap(this.maxConcurrent - this.inFlight, now) ??
+          this.maxConcurrent - this.inFlight,
+        now
+      )
+    );
+    if (slots <= 0) {
+      return waiting;
+    }
+    let tokens = await this.availableFor(null);
+    const costs = [
+      ...this.queue.upcoming(Math.min(slots, this.queue.length)),
+      { cost },
+    ].map((item) => item.cost);
+    let admitted = 0;
+    while (admitted < slots && costs[admitted] <= tokens) {
+      tokens -= costs[admitted];
+      admitted++;
+    }
+    return waiting - admitted;
+  }
+
+  /**
+   * Number of queue slots taken: the queued requests, and the requests being added that do not wait for space.
+   */
+  private occupied(): number {
+    return this.queue.length + this.adding - this.spaceWaiters.length;
+  }
+
+  /**
+   * Lets waiting callers add their requests, in the order they started waiting, while the queue has room.
+   * Callers that were let in but have not queued their request yet count as taking room.
+   */
+  private notifySpace(): void {
+    let free = this.maxQueueSize - this.occupied();
+    while (free > 0 && this.spaceWaiters.length > 0) {
+      this.spaceWaiters.shift()!.grant();
+      free--;
+    }
+  }
+
+  /**
+   * Rejects every queued request.
+   *
+   * @param {Error} error - The error to reject them with.
+   * @param {"shutdown" | "circuit-open"} reason - Why they leave the queue.
+   */
+  private rejectQueued(
+    error: Error,
+    reason: "shutdown" | "circuit-open"
+  ): void {
+    while (!this.queue.isEmpty()) {
+      const item = this.queue.shift()!;
+      item.cleanup?.();
+      this.emitEvent("dequeued", {
+        lane: item.lane,
+        attempt: item.attempts.length + 1,
+        reason,
+        waitMs: this.clock.now() - item.enqueuedAt,
+      });
+      item.reject(
+        reason === "circuit-open" ? this.retryError(item, error) : error
+      );
+    }
+  }
+
+  /**
+   * Wraps the error that ends a request after failed attempts in a `RetryFailedError`,
+   * so the caller still gets the history of the attempts.
+   *
+   * @param {QueueItem<T>} item - The item that is rejected.
+   * @param {Error} error - The error that ends the request.
+   * @returns {Error} The wrapped error, or `error` itself before the first attempt failed.
+   */
+  private retryError(item: QueueItem<T>, error: Error): Error {
+    return item.attempts.length > 0
+      ? new RetryFailedError([...item.attempts], error)
+      : error;
+  }
+
+  /**
+   * Returns the error requests fail fast with while the circuit is open.
+   *
+   * @returns {CircuitOpenError | null} The error, or `null` unless the circuit is open.
+   */
+  private circuitError(): CircuitOpenError | null {
+    const retryInMs = this.breaker?.openRemaining(this.clock.now()) ?? 0;
+    return retryInMs > 0 ? new CircuitOpenError(retryInMs) : null;
+  }
+
+  /**
+   * Records the outcome of an attempt in the circuit breaker. When the circuit opens,
+   * every queued request is rejected with a `CircuitOpenError` without taking any tokens.
+   *
+   * @param {QueueItem<T>} item - The item of the attempt.
+   * @param {RequestOutcome<T>} outcome - The outcome of the attempt.
+   */
+  private recordCircuit(item: QueueItem<T>, outcome: RequestOutcome<T>): void {
+    if (!this.breaker) {
+      return;
+    }
+    const now = this.clock.now();
+    const probe = this.probes.delete(item);
+    if (this.breaker.record(outcome, probe, now)) {
+      this.clearTimer();
+      this.rejectQueued(
+        new CircuitOpenError(this.breaker.openRemaining(now)),
+        "circuit-open"
+      );
+      this.notifySpace();
+    }
+  }
+
+  /**
+   * Removes a queued item without consuming any tokens when its signal aborts
+   * or its maximum wait time elapses, and rejects it with a matching error.
+   * Both watchers are detached through `item.cleanup` once the item leaves the queue.
+   *
+   * @param {QueueItem<T>} item - The item about to be queued.
+   */
+  private watchQueuedItem(item: QueueItem<T>): void {
+    const { signal, maxWaitMs } = item;
+    if (!signal && maxWaitMs === undefined) {
+      return;
+    }
+
+    let waitTimer: TimerHandle | undefined;
+    const evict = (error: Error, reason: "aborted" | "timeout") => {
+      item.cleanup?.();
+      if (this.queue.remove(item.lane, item)) {
+        this.emitEvent("dequeued", {
+          lane: item.lane,
+          attempt: item.attempts.length + 1,
+          reason,
+          waitMs: this.clock.now() - item.enqueuedAt,
+        });
+        item.reject(error);
+        this.notifySpace();
+        this.emitDrainedIfIdle();
+      }
+    };
+    const onAbort = () =>
+      evict(new RequestAbortedError(signal?.reason), "aborted");
+
+    if (maxWaitMs !== undefined) {
+      waitTimer = this.clock.setTimeout(
+        () => evict(new QueueTimeoutError(maxWaitMs), "timeout"),
+        maxWaitMs
+      );
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    item.cleanup = () => {
+      if (waitTimer) {
+        this.clock.clearTimeout(waitTimer);
+      }
+      signal?.removeEventListener("abort", onAbort);
+    };
+  }
+
+  /**
+   * Atomically admits requests with the given costs, in order, as long as every window has room
+   * for the next one under the effective limits, recording each admission in every window.
+   * A cost above the limit of a window is admitted once the window is full and overdraws it.
+   * The unused reservations of children other than `via` are held back. Requests arriving through a child
+   * are also held back by the backoff and the upstream quota of the limiter, and stay within the child's maximum share.
+   * Admissions are passed on to the parent, and the tokens of the requests it does not admit are returned.
+   *
+   * @param {number[]} costs - Costs of the next requests, next first.
+   * @param {ApiRateLimiter<any> | null} [via=null] - The child the requests arrive through, `null` for requests of the limiter.
+   * @returns {Promise<number>} The number of admitted requests.
+   */
+  private async tryConsume(
+    costs: number[],
+    via: ApiRateLimiter<any> | null = null
+  ): Promise<number> {
+    const windows = this.adaptive.scaleWindows(this.windows);
+    if (via) {
+      costs = costs.slice(
+        0,
+        this.pauseRemaining() > 0
+          ? 0
+          : this.adaptive.cap(costs.length, this.clock.now())
+      );
+    }
+    const admitted = await this.updateState((states, now, state) => {
+      const held = this.heldBack(via, state, windows, now);
+      const share = via ? this.shareWindows(via, state, windows, now) : null;
+      let admitted = 0;
+      while (
+        admitted < costs.length &&
+        this.fits(states, windows, held, share?.max ?? [], costs[admitted], now)
+      ) {
+        this.charge(states, windows, share, costs[admitted], now);
+        admitted++;
+      }
+      return admitted;
+    });
+    const granted =
+      this.parent && admitted > 0
+        ? await this.parent.tryConsume(costs.slice(0, admitted), this)
+        : admitted;
+    if (granted < admitted) {
+      await this.adjustCost(
+        -costs.slice(granted, admitted).reduce((sum, cost) => sum + cost, 0),
+        via,
+        false
+      );
+    }
+    this.adaptive.recordAdmissions(granted);
+    return granted;
+  }
+
+  /**
+   * Computes how long a request of the given cost has to wait until every window admits it
+   * under the effective limits, and the windows of every ancestor too.
+   *
+   * @param {number} cost - Number of tokens the request takes.
+   * @param {ApiRateLimiter<any> | null} [via=null] - The child the request arrives through, `null` for a request of the limiter.
+   * @returns {Promise<number>} The wait in milliseconds, 0 if it fits now.
+   */
+  private admissionWait(
+    cost: number,
+    via: ApiRateLimiter<any> | null = null
+  ): Promise<number> {
+    const windows = this.adaptive.scaleWindows(this.windows);
+    const waitMs = this.updateState((states, now, state) =>
+      Math.max(
+        via ? this.pauseRemaining() : 0,
+        this.waitTime(
+          states,
+          windows,
+          this.heldBack(via, state, windows, now),
+          via ? this.shareWindows(via, state, windows, now).max : [],
+          cost,
+          now
+        )
+      )
+    );
+    const { parent } = this;
+    return parent
+      ? waitMs.then(async (ms) =>
+          Math.max(ms, await parent.admissionWait(cost, this))
+        )
+      : waitMs;
+  }
+
+  /**
+   * Takes `cost` tokens from every window now, and from the windows of every ancestor, even if they are not available yet.
+   *
+   * @param {number} cost - Number of tokens to take.
+   * @param {ApiRateLimiter<any> | null} via - The child the reservation is made through, `null` for a reservation of the limiter.
+   * @returns {Promise<{ delayMs: number; now: number }>} The time until every window has paid the tokens back,
+   *   and the timestamp they were taken at.
+   */
+  private async book(
+    cost: number,
+    via: ApiRateLimiter<any> | null
+  ): Promise<{ delayMs: number; now: number }> {
+    const windows = this.adaptive.scaleWindows(this.windows);
+    const pauseMs = this.pauseRemaining();
+    const booked = await this.updateState((states, now, state) => {
+      const held = this.heldBack(via, state, windows, now);
+      const share = via ? this.shareWindows(via, state, windows, now) : null;
+      const delayMs = Math.max(
+        pauseMs,
+        this.waitTime(states, windows, held, share?.max ?? [], cost, now)
+      );
+      this.charge(states, windows, share, cost, now);
+      return { delayMs, now };
+    });
+    this.adaptive.recordAdmissions(1);
+    if (this.parent) {
+      const { delayMs } = await this.parent.book(cost, this);
+      booked.delayMs = Math.max(booked.delayMs, delayMs);
+    }
+    return booked;
+  }
+
+  /**
+   * Counts the requests of cost 1 that would be admitted right now, within the windows of every ancestor.
+   *
+   * @param {ApiRateLimiter<any> | null} via - The child the requests would arrive through, `null` for requests of the limiter.
+   * @returns {Promise<number>} The number of requests.
+   */
+  private async availableFor(via: ApiRateLimiter<any> | null): Promise<number> {
+    const windows = this.adaptive.scaleWindows(this.windows);
+    const available = await this.updateState((states, now, state) => {
+      const held = this.heldBack(via, state, windows, now);
+      const max = via ? this.shareWindows(via, state, windows, now).max : [];
+      return Math.max(
+        0,
+        Math.floor(
+          Math.min(
+            ...windows.map(
+              (window, index) =>
+                this.strategy.available(states[index], window, now) -
+                held[index]
+            ),
+            ...max.map((share) =>
+              this.strategy.available(share.state, share.window, now)
+            )
+          )
+        )
+      );
+    });
+    return this.parent
+      ? Math.min(available, await this.parent.availableFor(this))
+      : available;
+  }
+
+  /**
+   * Milliseconds left before admissions may resume, because the upstream asked to back off
+   * or the quota it reported is used up.
+   */
+  private pauseRemaining(): number {
+    const now = this.clock.now();
+    return Math.max(
+      this.adaptive.backoffRemaining(now),
+      this.adaptive.quotaResetRemaining(now)
+    );
+  }
+
+  /**
+   * Charges additional tokens to every window under the effective limits, or refunds them when negative,
+   * and likewise to every ancestor. Tokens returned to an ancestor wake it and its other descendants.
+   *
+   * @param {number} delta - Number of tokens to charge.
+   * @param {ApiRateLimiter<any> | null} [via=null] - The child the tokens are charged through, whose maximum share is charged too.
+   * @param {boolean} [propagate=true] - Whether to charge the ancestors as well.
+   */
+  private async adjustCost(
+    delta: number,
+    via: ApiRateLimiter<any> | null = null,
+    propagate = true
+  ): Promise<void> {
+    const windows = this.adaptive.scaleWindows(this.windows);
+    await this.updateState((states, now, state) => {
+      windows.forEach((window, index) =>
+        this.strategy.consume(states[index], window, delta, now)
+      );
+      if (via) {
+        this.shareWindows(via, state, windows, now).max.forEach((share) =>
+          this.strategy.consume(share.state, share.window, delta, now)
+        );
+      }
+    });
+    if (propagate && this.parent) {
+      await this.parent.adjustCost(delta, this);
+      if (delta < 0) {
+        this.parent.wakeAll(this);
+      }
+    }
+  }
+
+  /**
+   * Applies `maxPerSecond` and `maxPerMinute` to the current windows.
+   *
+   * @param {UpdatableOptions} options - The options passed to `updateOptions`.
+   * @returns {RateLimitWindow[]} The windows with the new one-second and one-minute limits, unvalidated.
+   */
+  private resizeWindows({
+    maxPerSecond,
+    maxPerMinute,
+  }: UpdatableOptions): RateLimitWindow[] {
+    const limits = new Map(
+      this.windows.map(({ durationMs, limit }) => [durationMs, limit])
+    );
+    if (maxPerSecond !== undefined) {
+      limits.set(ApiRateLimiter.Constants.SECOND_IN_MS, maxPerSecond);
+    }
+    if (maxPerMinute !== undefined) {
+      limits.set(ApiRateLimiter.Constants.MINUTE_IN_MS, maxPerMinute);
+    }
+    return [...limits].map(([durationMs, limit]) => ({ limit, durationMs }));
+  }
+
+  /**
+   * Returns a copy of the limits currently in effect.
+   */
+  private limits(): LimiterLimits {
+    return {
+      windows: this.windows.map((window) => ({ ...window })),
+      maxQueueSize: this.maxQueueSize,
+      maxConcurrent: this.maxConcurrent,
+    };
+  }
+
+  /**
+   * Reports the remaining capacity of every window under the effective limits, alongside its configured limit.
+   *
+   * @param {any[]} states - The window states, in window order.
+   * @param {number} now - The current timestamp in milliseconds.
+   * @returns {WindowStatus[]} The status of every window, in window order.
+   */
+  private describeWindows(states: any[], now: number): WindowStatus[] {
+    return this.adaptive.scaleWindows(this.windows).map((window, index) => ({
+      durationMs: window.durationMs,
+      limit: this.windows[index].limit,
+      remaining: this.strategy.available(states[index], window, now),
+      resetMs: this.strategy.waitTime(states[index], window, window.limit, now),
+    }));
+  }
+
+  /**
+   * Reports the windows of the limiter and of every ancestor.
+   *
+   * @returns {Promise<WindowStatus[]>} The status of every window, the limiter's first.
+   */
+  private async lineageWindows(): Promise<WindowStatus[]> {
+    const windows = await this.updateState((states, now) =>
+      this.describeWindows(states, now)
+    );
+    return this.parent
+      ? [...windows, ...(await this.parent.lineageWindows())]
+      : windows;
+  }
+
+  /**
+   * Runs `mutate` on the strategy state of every window as one atomic store update.
+   * Window states missing from the store are created with their full capacity.
+   *
+   * @param {(states: any[], now: number, state: LimiterState) => R} mutate - Receives the window states, in window order,
+   *   the current timestamp and the whole stored state.
+   * @returns {Promise<R>} The value returned by `mutate`.
+   */
+  private updateState<R>(
+    mutate: (states: any[], now: number, state: LimiterState) => R
+  ): Promise<R> {
+    const ttlMs = this.windows[this.windows.length - 1].durationMs;
+    return this.store.update(this.storeKey, (stored) => {
+      const now = this.clock.now();
+      const state: LimiterState = stored ?? { windows: {} };
+      const states = this.windows.map(
+        (window) =>
+          (state.windows[window.durationMs] ??= this.strategy.createState(
+            window,
+            now
+          ))
+      );
+      return { state, result: mutate(states, now, state), ttlMs };
+    });
+  }
+
+  /**
+   * Returns the windows of the share of a child with their strategy states, created with their full capacity when missing.
+   * `reserved` holds the unused part of the reservation and `max` what the child may still take;
+   * each is empty when the share does not constrain the child.
+   *
+   * @param {ApiRateLimiter<any>} child - The child.
+   * @param {LimiterState} state - The stored state of the limiter.
+   * @param {RateLimitWindow[]} windows - The windows under the effective limits.
+   * @param {number} now - The current timestamp in milliseconds.
+   * @returns The share windows, in window order.
+   */
+  private shareWindows(
+    child: ApiRateLimiter<any>,
+    state: LimiterState,
+    windows: RateLimitWindow[],
+    now: number
+  ): Record<"reserved" | "max", { window: RateLimitWindow; state: any }[]> {
+    const part = (key: "reserved" | "max", fraction: number, minimum: number) =>
+      windows.map(({ durationMs, limit }) => {
+        const window = {
+          durationMs,
+          limit: Math.max(fraction * limit, minimum),
+        };
+        // Only constrained shares are stored, so that unconstrained children leave no state behind.
+        const stored = ((state.shares ??= {})[child.name] ??= {});
+        const entry = (stored[durationMs] ??= {});
+        return {
+          window,
+          state: (entry[key] ??= this.strategy.createState(window, now)),
+        };
+      });
+    return {
+      reserved:
+        child.share.reserved > 0
+          ? part("reserved", child.share.reserved, 0)
+          : [],
+      // A child may always take one request per window, however small its share.
+      max: child.share.max < 1 ? part("max", child.share.max, 1) : [],
+    };
+  }
+
+  /**
+   * Returns the tokens of every window held back for the unused reservations of the children other than `via`.
+   *
+   * @param {ApiRateLimiter<any> | null} via - The child requests arrive through, `null` for requests of the limiter.
+   * @param {LimiterState} state - The stored state of the limiter.
+   * @param {RateLimitWindow[]} windows - The windows under the effective limits.
+   * @param {number} now - The current timestamp in milliseconds.
+   * @returns {number[]} The held back tokens, in window order.
+   */
+  private heldBack(
+    via: ApiRateLimiter<any> | null,
+    state: LimiterState,
+    windows: RateLimitWindow[],
+    now: number
+  ): number[] {
+    const held = windows.map(() => 0);
+    this.children.forEach((child) => {
+      if (child === via) {
+        return;
+      }
+      this.shareWindows(child, state, windows, now).reserved.forEach(
+        (share, index) => {
+          held[index] += this.strategy.available(
+            share.state,
+            share.window,
+            now
+          );
+        }
+      );
+    });
+    return held;
+  }
+
+  /**
+   * Whether a request of `cost` fits every window beside the held back tokens, and every window of a maximum share.
+   */
+  private fits(
+    states: any[],
+    windows: RateLimitWindow[],
+    held: number[],
+    max: { window: RateLimitWindow; state: any }[],
+    cost: number,
+    now: number
+  ): boolean {
+    return (
+      windows.every(
+        (window, index) =>
+          this.strategy.available(states[index], window, now) >=
+          Math.min(cost + held[index], window.limit)
+      ) &&
+      max.every(
+        (share) =>
+          this.strategy.available(share.state, share.window, now) >=
+          Math.min(cost, share.window.limit)
+      )
+    );
+  }
+
+  /**
+   * Milliseconds until a request of `cost` fits every window beside the held back tokens, and every window of a maximum share.
+   */
+  private waitTime(
+    states: any[],
+    windows: RateLimitWindow[],
+    held: number[],
+    max: { window: RateLimitWindow; state: any }[],
+    cost: number,
+    now: number
+  ): number {
+    return Math.max(
+      0,
+      ...windows.map((window, index) =>
+        this.strategy.waitTime(
+          states[index],
+          window,
+          Math.min(cost + held[index], window.limit),
+          now
+        )
+      ),
+      ...max.map((share) =>
+        this.strategy.waitTime(
+          share.state,
+          share.window,
+          Math.min(cost, share.window.limit),
+          now
+        )
+      )
+    );
+  }
+
+  /**
+   * Records a request of `cost` in every window and in the share of the child it arrives through, if any.
+   * The reservation is drawn only as far as it is unused.
+   */
+  private charge(
+    states: any[],
+    windows: RateLimitWindow[],
+    share: Record<
+      "reserved" | "max",
+      { window: RateLimitWindow; state: any }[]
+    > | null,
+    cost: number,
+    now: number
+  ): void {
+    windows.forEach((window, index) =>
+      this.strategy.consume(states[index], window, cost, now)
+    );
+    share?.reserved.forEach(({ window, state }) =>
+      this.strategy.consume(
+        state,
+        window,
+        Math.min(
+          cost,
+          Math.max(this.strategy.available(state, window, now), 0)
+        ),
+        now
+      )
+    );
+    share?.max.forEach(({ window, state }) =>
+      this.strategy.consume(state, window, cost, now)
+    );
+  }
+
+  /**
+   * Registers the limiter as a child of `parent`.
+   *
+   * @param {ApiRateLimiter<any>} parent - The parent.
+   * @param {ShareOptions} share - The share of the parent claimed by the limiter.
+   *
+   * A child of the same name that is shutting down is replaced.
+   *
+   * @throws {InvalidOptionsError} If the parent is not a limiter or already has a running child of the same name, or the share is
+   *   not a pair of fractions with `reserved` up to `max`, or takes the reservations of the parent's children above 1.
+   */
+  private attachTo(parent: ApiRateLimiter<any>, share: ShareOptions): void {
+    if (!(parent instanceof ApiRateLimiter)) {
+      throw new InvalidOptionsError("parent must be an ApiRateLimiter");
+    }
+    const { reserved = 0, max = 1 } = share;
+    if (!(reserved >= 0 && reserved <= 1)) {
+      throw new InvalidOptionsError(
+        "share.reserved must be a fraction between 0 and 1"
+      );
+    }
+    if (!(max > 0 && max <= 1) || max < reserved) {
+      throw new InvalidOptionsError(
+        "share.max must be a fraction above 0, up to 1 and at least share.reserved"
+      );
+    }
+    const namesake = parent.children.get(this.name);
+    if (namesake && namesake.shutdownMode === null) {
+      throw new InvalidOptionsError(
+        `parent already has a child named "${this.name}"`
+      );
+    }
+    const reservedTotal = [...parent.children.values()]
+      .filter((child) => child !== namesake)
+      .reduce((sum, child) => sum + child.share.reserved, reserved);
+    if (reservedTotal > 1 + Number.EPSILON) {
+      throw new InvalidOptionsError(
+        "the reserved shares of the children of a limiter must not add up to more than 1"
+      );
+    }
+    this.parent = parent;
+    this.share = { reserved, max };
+    parent.children.set(this.name, this);
+  }
+
+  /**
+   * Picks the window with the fewest remaining tokens, the shortest one on ties.
+   *
+   * @param {WindowStatus[]} windows - The status of every window, ordered from shortest to longest.
+   * @returns {WindowStatus} The most constrained window.
+   */
+  private static mostConstrained(windows: WindowStatus[]): WindowStatus {
+    return windows.reduce((most, window) =>
+      window.remaining < most.remaining ? window : most
+    );
+  }
+
+  /**
+   * Validates the cost of a request. Windows count whole tokens, so costs are integers.
+   *
+   * @param {number} cost - Number of tokens the request takes from every window.
+   *
+   * @throws {InvalidOptionsError} If the cost is not a positive integer.
+   */
+  private static validateCost(cost: number): void {
+    if (!Number.isInteger(cost) || cost <= 0) {
+      throw new InvalidOptionsError("cost must be a positive integer");
+    }
+  }
+
+  /**
+   * Validates the size of the queue and the concurrency limit.
+   *
+   * @param {number} maxQueueSize - Maximum size of the request queue.
+   * @param {number} maxConcurrent - Maximum number of requests executing at the same time.
+   *
+   * @throws {InvalidOptionsError} If `maxQueueSize` is not a non-negative integer or `maxConcurrent` is not a positive integer,
+   *   and neither is `Infinity`.
+   */
+  private static validateCapacity(
+    maxQueueSize: number,
+    maxConcurrent: number
+  ): void {
+    if (
+      maxQueueSize !== Infinity &&
+      (!Number.isInteger(maxQueueSize) || maxQueueSize < 0)
+    ) {
+      throw new InvalidOptionsError(
+        "maxQueueSize must be a non-negative integer"
+      );
+    }
+    if (
+      maxConcurrent !== Infinity &&
+      (!Number.isInteger(maxConcurrent) || maxConcurrent <= 0)
+    ) {
+      throw new InvalidOptionsError("maxConcurrent must be a positive integer");
+    }
+  }
+
+  /**
+   * Validates an overflow policy.
+   *
+   * @param {OverflowPolicy} policy - A policy name or a custom handler.
+   *
+   * @throws {InvalidOptionsError} If the policy is neither a function nor a known policy name.
+   */
+  private static validateOverflow(policy: OverflowPolicy): void {
+    if (
+      typeof policy !== "function" &&
+      !(
+        ApiRateLimiter.Constants.OVERFLOW_POLICIES as readonly string[]
+      ).includes(policy)
+    ) {
+      throw new InvalidOptionsError(`unknown overflow policy "${policy}"`);
+    }
+  }
+
+  /**
+   * Validates the time results of keyed requests are cached.
+   *
+   * @param {number} cacheTtlMs - Time in milliseconds.
+   *
+   * @throws {InvalidOptionsError} If the time is not a non-negative, finite number.
+   */
+  private static validateCacheTtl(cacheTtlMs: number): void {
+    if (!Number.isFinite(cacheTtlMs) || cacheTtlMs < 0) {
+      throw new InvalidOptionsError("cacheTtlMs must be a non-negative number");
+    }
+  }
+
+  /**
+   * Follows a promise until a signal aborts, rejecting with the abort reason from then on.
+   *
+   * @param {Promise<R>} promise - The promise to follow.
+   * @param {AbortSignal} signal - The signal that stops following it.
+   * @returns {Promise<R>} A promise that settles like `promise` unless `signal` aborts first.
+   */
+  private static untilAborted<R>(
+    promise: Promise<R>,
+    signal: AbortSignal
+  ): Promise<R> {
+    if (signal.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    return new Promise<R>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener("abort", onAbort, { once: true });
+      promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  }
+
+  /**
+   * Validates the configured windows and returns them ordered from shortest to longest.
+   * Every window must have a positive duration and limit, durations must be unique,
+   * and a longer window may not allow fewer requests than a shorter one.
+   *
+   * @param {RateLimitWindow[]} windows - The windows to validate.
+   * @returns {RateLimitWindow[]} A sorted copy of the windows.
+   *
+   * @throws {InvalidOptionsError} If the windows are empty or inconsistent.
+   */
+  private static validateWindows(
+    windows: RateLimitWindow[]
+  ): RateLimitWindow[] {
+    if (!Array.isArray(windows) || windows.length === 0) {
+      throw new InvalidOptionsError("at least one window is required");
+    }
+
+    const sorted = windows
+      .map(({ limit, durationMs }) => ({ limit, durationMs }))
+      .sort((a, b) => a.durationMs - b.durationMs);
+
+    sorted.forEach((window, index) => {
+      if (
+        !Number.isFinite(window.limit) ||
+        !Number.isFinite(window.durationMs) ||
+        window.limit <= 0 ||
+        window.durationMs <= 0
+      ) {
+        throw new InvalidOptionsError(
+          "window limits and durations must be positive numbers"
+        );
+      }
+      const previous = sorted[index - 1];
+      if (previous && previous.durationMs === window.durationMs) {
+        throw new InvalidOptionsError(
+          `duplicate window of ${window.durationMs}ms`
+        );
+      }
+      if (previous && previous.limit > window.limit) {
+        throw new InvalidOptionsError(
+          `window of ${window.durationMs}ms allows fewer requests than the shorter window of ${previous.durationMs}ms`
+        );
+      }
+    });
+
+    return sorted;
+  }
+
+  /**
+   * Validates the configured lanes and fills in default weights.
+   * There must be at least one lane, names must be unique and weights must be positive.
+   *
+   * @param {LaneOptions[]} lanes - The lanes to validate, ordered from highest to lowest priority.
+   * @returns {Required<LaneOptions>[]} The lanes with their weights resolved.
+   *
+   * @throws {InvalidOptionsError} If the lanes are empty, duplicated or have invalid weights.
+   */
+  private static validateLanes(lanes: LaneOptions[]): Required<LaneOptions>[] {
+    if (!Array.isArray(lanes) || lanes.length === 0) {
+      throw new InvalidOptionsError("at least one lane is required");
+    }
+
+    const names = new Set<string>();
+    return lanes.map(({ name, weight = 1 }) => {
+      if (names.has(name)) {
+        throw new InvalidOptionsError(`duplicate lane "${name}"`);
+      }
+      if (!Number.isFinite(weight) || weight <= 0) {
+        throw new InvalidOptionsError(
+          `weight of lane "${name}" must be a positive number`
+        );
+      }
+      names.add(name);
+      return { name, weight };
+    });
   }
 }
 
@@ -0,0 +1,215 @@
+import { InvalidOptionsError } from "./errors";
+import {
+  CircuitBreakerOptions,
+  CircuitBreakerStatus,
+  CircuitState,
+} from "./type";
+
+/**
+ * Tracks the outcomes of attempts against the upstream API and stops admissions while it keeps failing.
+ *
+ * The circuit opens after `consecutiveFailures` failed attempts in a row, or once the failed fraction
+ * of the last `windowSize` attempts reaches `failureRate`. After `openMs` it turns half-open and admits
+ * up to `halfOpenProbes` probe requests at a time: the first probe to succeed closes the circuit
+ * and the first to fail opens it again.
+ */
+class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private openedAt = 0;
+  private consecutive = 0;
+  private outcomes: boolean[] = [];
+  private probes = 0;
+  private consecutiveFailures: number;
+  private failureRate: number;
+  private windowSize: number;
+  private openMs: number;
+  private halfOpenProbes: number;
+  private isFailure: (error: unknown) => boolean;
+
+  /**
+   * Creates an instance of CircuitBreaker.
+   * @param {CircuitBreakerOptions} options - Thresholds of the circuit.
+   *
+   * @throws {InvalidOptionsError} If a threshold is out of range.
+   */
+  constructor(options: CircuitBreakerOptions = {}) {
+    const {
+      consecutiveFailures = 5,
+      failureRate = 0.5,
+      windowSize = 20,
+      openMs = 30000,
+      halfOpenProbes = 1,
+      isFailure = () => true,
+    } = options;
+    if (!Number.isInteger(consecutiveFailures) || consecutiveFailures < 1) {
+      throw new InvalidOptionsError(
+        "consecutiveFailures must be a positive integer"
+      );
+    }
+    if (!(failureRate > 0 && failureRate <= 1)) {
+      throw new InvalidOptionsError("failureRate must be between 0 and 1");
+    }
+    if (!Number.isInteger(windowSize) || windowSize < 1) {
+      throw new InvalidOptionsError("windowSize must be a positive integer");
+    }
+    if (!Number.isFinite(openMs) || openMs < 0) {
+      throw new InvalidOptionsError("openMs must be a non-negative number");
+    }
+    if (!Number.isInteger(halfOpenProbes) || halfOpenProbes < 1) {
+      throw new InvalidOptionsError(
+        "halfOpenProbes must be a positive integer"
+      );
+    }
+    this.consecutiveFailures = consecutiveFailures;
+    this.failureRate = failureRate;
+    this.windowSize = windowSize;
+    this.openMs = openMs;
+    this.halfOpenProbes = halfOpenProbes;
+    this.isFailure = isFailure;
+  }
+
+  /**
+   * Returns the state of the circuit, turning an open circuit half-open once `openMs` has elapsed.
+   *
+   * @param {number} now - The current timestamp in milliseconds.
+   */
+  current(now: number): CircuitState {
+    if (this.state === "open" && now - this.openedAt >= this.openMs) {
+      this.state = "half-open";
+      this.probes = 0;
+    }
+    return this.state;
+  }
+
+  /**
+   * Milliseconds left before the open circuit turns half-open.
+   *
+   * @param {number} now - The current timestamp in milliseconds.
+   * @returns {number} The remaining time, or 0 unless the circuit is open.
+   */
+  openRemaining(now: number): number {
+    return this.current(now) === "open"
+      ? Math.max(this.openedAt + this.openMs - now, 0)
+      : 0;
+  }
+
+  /**
+   * Caps a number of admissions to the probes the circuit still lets through.
+   *
+   * @param {number} wanted - Number of admissions requested.
+   * @param {number} now - The current timestamp in milliseconds.
+   * @returns {number} All of them while closed, the free probes while half-open, and none while open.
+   */
+  cap(wanted: number, now: number): number {
+    switch (this.current(now)) {
+      case "closed":
+        return wanted;
+      case "half-open":
+        return Math.min(wanted, this.halfOpenProbes - this.probes);
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Counts an admitted request, which is a probe while the circuit is half-open.
+   *
+   * @param {number} now - The current timestamp in milliseconds.
+   * @returns {boolean} Whether the request is a probe.
+   */
+  admit(now: number): boolean {
+    if (this.current(now) !== "half-open") {
+      return false;
+    }
+    this.probes++;
+    return true;
+  }
+
+  /**
+   * Records the outcome of an attempt and moves the circuit accordingly.
+   * Outcomes of requests admitted before the circuit turned half-open do not decide a probe.
+   *
+   * @param {{ ok: true } | { ok: false; error: unknown }} outcome - The outcome of the attempt.
+   * @param {boolean} probe - Whether the attempt was admitted as a probe.
+   * @param {number} now - The current timestamp in milliseconds.
+   * @returns {boolean} Whether the circuit opened.
+   */
+  record(
+    outcome: { ok: true } | { ok: false; error: unknown },
+    probe: boolean,
+    now: number
+  ): boolean {
+    const failed = !outcome.ok && this.isFailure(outcome.error);
+    const state = this.current(now);
+    if (probe) {
+      this.probes = Math.max(this.probes - 1, 0);
+    }
+    if (state === "half-open") {
+      if (!probe) {
+        return false;
+      }
+      if (failed) {
+        this.open(now);
+        return true;
+      }
+      this.state = "closed";
+      this.consecutive = 0;
+      this.outcomes = [];
+      return false;
+    }
+    if (state === "open") {
+      return false;
+    }
+
+    this.consecutive = failed ? this.consecutive + 1 : 0;
+    this.outcomes.push(failed);
+    if (this.outcomes.length > this.windowSize) {
+      this.outcomes.shift();
+    }
+    if (
+      this.consecutive >= this.consecutiveFailures ||
+      (this.outcomes.length === this.windowSize &&
+        this.rate() >= this.failureRate)
+    ) {
+      this.open(now);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Reports the state of the circuit.
+   *
+   * @param {number} now - The current timestamp in milliseconds.
+   */
+  status(now: number): CircuitBreakerStatus {
+    return {
+      state: this.current(now),
+      consecutiveFailures: this.consecutive,
+      failureRate: this.rate(),
+      retryInMs: this.openRemaining(now),
+    };
+  }
+
+  /**
+   * Opens the circuit from now on.
+   *
+   * @param {number} now - The current timestamp in milliseconds.
+   */
+  private open(now: number): void {
+    this.state = "open";
+    this.openedAt = now;
+    this.probes = 0;
+  }
+
+  /**
+   * Fraction of failed attempts among the recorded ones.
+   */
+  private rate(): number {
+    return this.outcomes.length === 0
+      ? 0
+      : this.outcomes.filter((failed) => failed).length / this.outcomes.length;
+  }
+}
+
+export default CircuitBreaker;
@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Clocks of the API Rate Limiter
+ * The system clock used by default, and a virtual clock that runs limiters in simulated time
+ */
+
+import { Clock, TimerHandle } from "./type";
+
+/** A timer scheduled on a virtual clock */
+interface VirtualTimer {
+  id: number;
+  at: number;
+  callback: () => void;
+}
+
+/**
+ * The wall clock: `Date.now()` and the global timers.
+ */
+const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: (handle) => clearTimeout(handle as NodeJS.Timeout),
+};
+
+/**
+ * Waits until the promise callbacks queued so far, and those they queue in turn, have run.
+ */
+const settle = (): Promise<void> =>
+  new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * A clock whose time only moves when it is advanced, firing the timers that fall due on the way.
+ *
+ * Between two timers the clock yields to the event loop, so the promise chains started by a timer,
+ * e.g. a limiter admitting requests, settle before the clock moves on. Hours of traffic therefore
+ * replay in milliseconds and the same input always produces the same timings.
+ * Timers due at the same instant fire in the order they were scheduled.
+ */
+class VirtualClock implements Clock {
+  private time: number;
+  private timers: VirtualTimer[] = [];
+  private nextId = 1;
+
+  /**
+   * Creates an instance of VirtualClock.
+   * @param {number} [startAt=0] - The timestamp in milliseconds the clock starts at.
+   */
+  constructor(startAt = 0) {
+    this.time = startAt;
+  }
+
+  public now(): number {
+    return this.time;
+  }
+
+  public setTimeout(callback: () => void, delayMs: number): TimerHandle {
+    const timer = {
+      id: this.nextId++,
+      at: this.time + Math.max(delayMs, 0),
+      callback,
+    };
+    // Keeps the timers ordered by due time, and by scheduling order on ties.
+    const index = this.timers.findIndex(({ at }) => at > timer.at);
+    this.timers.splice(index === -1 ? this.timers.length : index, 0, timer);
+    return timer.id;
+  }
+
+  public clearTimeout(handle: TimerHandle): void {
+    this.timers = this.timers.filter(({ id }) => id !== handle);
+  }
+
+  /**
+   * Number of timers that have not fired yet.
+   */
+  public get pending(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * Moves the clock forward by `ms`, firing every timer that falls due on the way at its due time.
+   *
+   * @param {number} ms - Milliseconds to advance.
+   */
+  public async advance(ms: number): Promise<void> {
+    const target = this.time + ms;
+    await this.runUntil(target);
+    this.time = Math.max(this.time, target);
+  }
+
+  /**
+   * Fires timers in order until none is left or the next one is due after `until`,
+   * including the timers scheduled while running.
+   *
+   * @param {number} [until=Infinity] - Timestamp in milliseconds after which to stop.
+   * @returns {Promise<number>} The time of the clock once it stopped.
+   */
+  public async runUntil(until = Infinity): Promise<number> {
+    await settle();
+    while (this.timers.length > 0 && this.timers[0].at <= until) {
+      const timer = this.timers.shift()!;
+      this.time = Math.max(this.time, timer.at);
+      timer.callback();
+      await settle();
+    }
+    return this.time;
+  }
+}
+
+export { systemClock, VirtualClock };
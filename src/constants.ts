@@ -12,6 +12,25 @@ export const CONSTANTS = {
   DEFAULT_MAX_PER_SECOND: 100,
   /** Default maximum requests per minute */
   DEFAULT_MAX_PER_MINUTE: 1000,
+  /** Minimum delay between two processing ticks in milliseconds */
+  MIN_TICK_INTERVAL_MS: 1,
+  /** Delay in milliseconds before the next processing tick after a tick failed, e.g. on a store error */
+  ERROR_TICK_INTERVAL_MS: 1000,
+  /** Longest delay a timer supports in milliseconds; longer waits are computed again once it fires */
+  MAX_TIMER_DELAY_MS: 2147483647,
   /** Default maximum size of the request queue */
   DEFAULT_MAX_QUEUE_SIZE: 10000,
+  /** Name of the lane used when no lanes are configured */
+  DEFAULT_LANE: "default",
+  /** Key of the token state when none is configured */
+  DEFAULT_STORE_KEY: "default",
+  /** Names of the built-in queue overflow policies */
+  OVERFLOW_POLICIES: [
+    "reject-new",
+    "drop-oldest",
+    "drop-lowest-priority",
+    "wait-for-space",
+  ],
+  /** Version of the format produced by `exportState` */
+  STATE_VERSION: 1,
 } as const;
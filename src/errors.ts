@@ -3,13 +3,19 @@
  * Defines specific error types for different failure scenarios
  */
 
+import { OverflowPolicyName, RetryAttempt } from "./type";
+
 /**
  * Error thrown when invalid configuration options are provided
  * @extends Error
  */
 class InvalidOptionsError extends Error {
-  constructor() {
-    super("Invalid options provided to the rate limiter");
+  constructor(reason?: string) {
+    super(
+      reason
+        ? `Invalid options provided to the rate limiter: ${reason}`
+        : "Invalid options provided to the rate limiter"
+    );
     this.name = "InvalidOptionsError";
   }
 }
@@ -25,4 +31,147 @@ class QueueFullError extends Error {
   }
 }
 
-export { InvalidOptionsError, QueueFullError };
+/**
+ * Error thrown when a queued request is aborted through its `AbortSignal` before it is admitted
+ * @extends Error
+ */
+class RequestAbortedError extends Error {
+  constructor(public readonly reason?: unknown) {
+    super("Request was aborted while waiting in the rate limiter queue");
+    this.name = "RequestAbortedError";
+  }
+}
+
+/**
+ * Error thrown when a queued request is not admitted within its maximum wait time
+ * @extends Error
+ */
+class QueueTimeoutError extends Error {
+  constructor(public readonly maxWaitMs: number) {
+    super(`Request was not admitted within ${maxWaitMs}ms`);
+    this.name = "QueueTimeoutError";
+  }
+}
+
+/**
+ * Error thrown when a request is added to a rate limiter that is shutting down,
+ * or is still queued when the rate limiter shuts down in "reject" mode
+ * @extends Error
+ */
+class LimiterShutdownError extends Error {
+  constructor() {
+    super("Rate limiter has been shut down");
+    this.name = "LimiterShutdownError";
+  }
+}
+
+/**
+ * Error thrown when a store cannot update the token state because of contention,
+ * e.g. a lock that cannot be acquired in time or too many conflicting concurrent updates
+ * @extends Error
+ */
+class StoreContentionError extends Error {
+  constructor(public readonly key: string) {
+    super(
+      `Could not update the rate limiter state of "${key}" due to contention`
+    );
+    this.name = "StoreContentionError";
+  }
+}
+
+/**
+ * Error thrown when a queued request is dropped from the full queue to make room for a newer request
+ * @extends Error
+ */
+class RequestDroppedError extends Error {
+  constructor(
+    public readonly policy: Extract<
+      OverflowPolicyName,
+      "drop-oldest" | "drop-lowest-priority"
+    >
+  ) {
+    super(
+      `Request was dropped from the full rate limiter queue by the "${policy}" policy`
+    );
+    this.name = "RequestDroppedError";
+  }
+}
+
+/**
+ * Error thrown when a request is added while the circuit breaker is open,
+ * or is still queued or waiting for a retry when the circuit opens
+ * @extends Error
+ */
+class CircuitOpenError extends Error {
+  constructor(public readonly retryInMs: number) {
+    super(`Circuit is open, requests are let through again in ${retryInMs}ms`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Error thrown when a retried request fails for the last time
+ * @extends Error
+ */
+class RetryFailedError extends Error {
+  constructor(
+    public readonly attempts: RetryAttempt[],
+    public readonly lastError: unknown
+  ) {
+    super(`Request failed after ${attempts.length} attempts`);
+    this.name = "RetryFailedError";
+  }
+}
+
+/**
+ * Error thrown when a snapshot passed to `importState` cannot be restored,
+ * e.g. because of an unsupported version or a different limiting strategy
+ * @extends Error
+ */
+class InvalidStateError extends Error {
+  constructor(reason: string) {
+    super(`Invalid rate limiter state: ${reason}`);
+    this.name = "InvalidStateError";
+  }
+}
+
+/**
+ * Error thrown by a rate-limited fetch for a response with a retryable status (e.g. 429 or 503),
+ * so that the limiter queues the call again. The last response is returned instead of this error.
+ * @extends Error
+ */
+class RetryableResponseError extends Error {
+  constructor(public readonly response: Response) {
+    super(`Upstream responded with status ${response.status}`);
+    this.name = "RetryableResponseError";
+  }
+}
+
+/**
+ * Error thrown for every item of a batch whose batch function did not return one result per item
+ * @extends Error
+ */
+class BatchResultError extends Error {
+  constructor(
+    public readonly expected: number,
+    public readonly received: number
+  ) {
+    super(`Batch function returned ${received} results for ${expected} items`);
+    this.name = "BatchResultError";
+  }
+}
+
+export {
+  InvalidOptionsError,
+  QueueFullError,
+  RequestAbortedError,
+  QueueTimeoutError,
+  RequestDroppedError,
+  CircuitOpenError,
+  LimiterShutdownError,
+  StoreContentionError,
+  RetryFailedError,
+  InvalidStateError,
+  RetryableResponseError,
+  BatchResultError,
+};
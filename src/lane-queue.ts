@@ -0,0 +1,221 @@
+import Deque from "double-ended-queue";
+import { LaneOptions, LaneStatus } from "./type";
+
+/** A lane with its resolved weight and scheduling credit */
+interface Lane<I> {
+  name: string;
+  weight: number;
+  credit: number;
+  /** Queued items in order, including removed ones that have not been skipped yet */
+  items: Deque<I>;
+  /** Items still waiting; an entry of `items` missing here was removed */
+  waiting: Set<I>;
+}
+
+/**
+ * A request queue split into named FIFO lanes.
+ * Items are taken with smooth weighted round robin: every waiting lane earns credit in proportion
+ * to its weight and the lane with the most credit is served next, ties going to the higher lane.
+ * A higher lane is therefore served first and most often, while every waiting lane is served
+ * at least once per round of the total weight.
+ */
+class LaneQueue<I> {
+  private lanes: Lane<I>[];
+  private lanesByName = new Map<string, Lane<I>>();
+  private size = 0;
+
+  /**
+   * Creates an instance of LaneQueue.
+   * @param {Required<LaneOptions>[]} lanes - Validated lanes, ordered from highest to lowest priority.
+   */
+  constructor(lanes: Required<LaneOptions>[]) {
+    this.lanes = lanes.map(({ name, weight }) => ({
+      name,
+      weight,
+      credit: 0,
+      items: new Deque<I>(),
+      waiting: new Set<I>(),
+    }));
+    for (const lane of this.lanes) {
+      this.lanesByName.set(lane.name, lane);
+    }
+  }
+
+  /** Total number of items across all lanes */
+  get length(): number {
+    return this.size;
+  }
+
+  isEmpty(): boolean {
+    return this.size === 0;
+  }
+
+  has(lane: string): boolean {
+    return this.lanesByName.has(lane);
+  }
+
+  /**
+   * Appends an item to the back of a lane.
+   *
+   * @param {string} lane - Name of an existing lane.
+   * @param {I} item - The item to queue.
+   */
+  push(lane: string, item: I): void {
+    const target = this.lanesByName.get(lane)!;
+    target.items.push(item);
+    target.waiting.add(item);
+    this.size++;
+  }
+
+  /**
+   * Returns the item at the front of a lane, which has waited longest, without removing it.
+   *
+   * @param {string} lane - Name of the lane.
+   * @returns {I | undefined} The item, or `undefined` when the lane is empty or does not exist.
+   */
+  front(lane: string): I | undefined {
+    return this.lanesByName.get(lane)?.items.peekFront();
+  }
+
+  /**
+   * Returns the item at the back of a lane, which was queued last, without removing it.
+   *
+   * @param {string} lane - Name of the lane.
+   * @returns {I | undefined} The item, or `undefined` when the lane is empty or does not exist.
+   */
+  back(lane: string): I | undefined {
+    return this.lanesByName.get(lane)?.items.peekBack();
+  }
+
+  /**
+   * Removes and returns the next item according to the lane weights.
+   *
+   * @returns {I | undefined} The next item, or `undefined` when all lanes are empty.
+   */
+  shift(): I | undefined {
+    let selected: Lane<I> | undefined;
+    let totalWeight = 0;
+    for (const lane of this.lanes) {
+      if (lane.waiting.size === 0) {
+        continue;
+      }
+      lane.credit += lane.weight;
+      totalWeight += lane.weight;
+      if (!selected || lane.credit > selected.credit) {
+        selected = lane;
+      }
+    }
+    if (!selected) {
+      return undefined;
+    }
+    selected.credit -= totalWeight;
+    if (selected.waiting.size === 1) {
+      // A lane that runs dry starts afresh when it is refilled.
+      selected.credit = 0;
+    }
+    this.size--;
+    const item = selected.items.shift()!;
+    selected.waiting.delete(item);
+    this.skipRemoved(selected);
+    return item;
+  }
+
+  /**
+   * Returns the next items in the order `shift()` would return them, without removing any.
+   *
+   * @param {number} count - Maximum number of items to return.
+   * @returns {I[]} Up to `count` items, next first.
+   */
+  upcoming(count: number): I[] {
+    // Replays the weighted selection of `shift()` on copies of the lane credits.
+    const lanes = this.lanes.map((lane) => ({
+      lane,
+      credit: lane.credit,
+      taken: 0,
+      index: 0,
+    }));
+    const result: I[] = [];
+    while (result.length < Math.min(count, this.size)) {
+      let selected: (typeof lanes)[number] | null = null;
+      let totalWeight = 0;
+      for (const entry of lanes) {
+        if (entry.taken === entry.lane.waiting.size) {
+          continue;
+        }
+        entry.credit += entry.lane.weight;
+        totalWeight += entry.lane.weight;
+        if (!selected || entry.credit > selected.credit) {
+          selected = entry;
+        }
+      }
+      const next = selected!;
+      next.credit -= totalWeight;
+      if (next.taken === next.lane.waiting.size - 1) {
+        next.credit = 0;
+      }
+      while (!next.lane.waiting.has(next.lane.items.get(next.index)!)) {
+        next.index++;
+      }
+      result.push(next.lane.items.get(next.index++)!);
+      next.taken++;
+    }
+    return result;
+  }
+
+  /**
+   * Removes a specific item from a lane, wherever it is in the lane.
+   * The item is only marked as removed and skipped once it reaches either end of the lane,
+   * so removing is constant time however long the lane is.
+   *
+   * @param {string} lane - Name of the lane holding the item.
+   * @param {I} item - The item to remove.
+   * @returns {boolean} `true` if the item was found and removed.
+   */
+  remove(lane: string, item: I): boolean {
+    const target = this.lanesByName.get(lane);
+    if (!target) {
+      return false;
+    }
+    if (!target.waiting.delete(item)) {
+      return false;
+    }
+    this.skipRemoved(target);
+    if (target.waiting.size === 0) {
+      target.credit = 0;
+    }
+    this.size--;
+    return true;
+  }
+
+  /**
+   * Reports the depth of every lane.
+   *
+   * @returns {LaneStatus[]} One entry per lane, ordered from highest to lowest priority.
+   */
+  status(): LaneStatus[] {
+    return this.lanes.map(({ name, weight, waiting }) => ({
+      name,
+      weight,
+      queueSize: waiting.size,
+    }));
+  }
+
+  /**
+   * Drops removed items from both ends of a lane, so its ends are always waiting items.
+   *
+   * @param {Lane<I>} lane - The lane to tidy.
+   */
+  private skipRemoved(lane: Lane<I>): void {
+    while (
+      !lane.items.isEmpty() &&
+      !lane.waiting.has(lane.items.peekFront()!)
+    ) {
+      lane.items.shift();
+    }
+    while (!lane.items.isEmpty() && !lane.waiting.has(lane.items.peekBack()!)) {
+      lane.items.pop();
+    }
+  }
+}
+
+export default LaneQueue;
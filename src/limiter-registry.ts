@@ -0,0 +1,279 @@
+import ApiRateLimiter from "./api-rate-limiter";
+import { systemClock } from "./clock";
+import { InvalidOptionsError } from "./errors";
+import {
+  AddRequestOptions,
+  ApiRateLimiterOptions,
+  ApiRequest,
+  Clock,
+  TimerHandle,
+} from "./type";
+
+/**
+ * Options of a LimiterRegistry
+ * @interface LimiterRegistryOptions
+ */
+export interface LimiterRegistryOptions {
+  /** Options every per-key limiter is created from; its `clock` also times idle eviction */
+  template: ApiRateLimiterOptions;
+  /** Options merged over the template for specific keys, by key or computed from the key */
+  overrides?:
+    | Record<string, ApiRateLimiterOptions>
+    | ((key: string) => ApiRateLimiterOptions | undefined);
+  /** Time in milliseconds after which a key without pending requests is evicted once its windows are full again (default: never) */
+  idleTtlMs?: number;
+  /** Maximum number of keys; the least recently used idle keys whose windows are full again are evicted beyond it (default: unlimited) */
+  maxKeys?: number;
+  /** Limits shared by every key; the global limiter is the parent of every per-key limiter */
+  global?: Pick<
+    ApiRateLimiterOptions,
+    | "maxPerSecond"
+    | "maxPerMinute"
+    | "windows"
+    | "strategy"
+    | "store"
+    | "storeKey"
+    | "adaptive"
+    | "clock"
+  >;
+}
+
+/** A per-key limiter with the bookkeeping needed for eviction */
+interface Entry<T> {
+  limiter: ApiRateLimiter<T>;
+  pending: number;
+  lastUsedAt: number;
+}
+
+/**
+ * Creates rate limiters lazily per key (e.g. per customer API key or per endpoint)
+ * and evicts keys that stay idle, optionally layering a global limiter over all keys.
+ * A key is only evicted once its windows are full again, so that pausing never resets its quota.
+ *
+ * The global limiter is the parent of every per-key limiter: a request waits in its key's queue only,
+ * and is admitted once the windows of its key and the global windows have room, taking tokens from both at once.
+ */
+class LimiterRegistry<T> {
+  private entries = new Map<string, Entry<T>>();
+  private global: ApiRateLimiter<unknown> | null = null;
+  private clock: Clock;
+  private sweepTimer: TimerHandle | null = null;
+
+  /**
+   * Creates an instance of LimiterRegistry.
+   * @param {LimiterRegistryOptions} options - Template, overrides, eviction and global limit options.
+   * @param {(error: Error | unknown) => void} [errorHandler=console.error] - Error handler passed to every limiter.
+   *
+   * @throws {InvalidOptionsError} If `idleTtlMs` or `maxKeys` is not positive, or the global options are invalid.
+   */
+  constructor(
+    private options: LimiterRegistryOptions,
+    private errorHandler: (error: Error | unknown) => void = console.error
+  ) {
+    const { idleTtlMs, maxKeys, global } = options;
+    if (idleTtlMs !== undefined && !(idleTtlMs > 0)) {
+      throw new InvalidOptionsError("idleTtlMs must be positive");
+    }
+    if (maxKeys !== undefined && (!Number.isInteger(maxKeys) || maxKeys <= 0)) {
+      throw new InvalidOptionsError("maxKeys must be a positive integer");
+    }
+    if (global) {
+      this.global = new ApiRateLimiter<unknown>(global, errorHandler);
+    }
+    this.clock = options.template.clock ?? systemClock;
+    if (idleTtlMs !== undefined && Number.isFinite(idleTtlMs)) {
+      this.scheduleSweep(idleTtlMs);
+    }
+  }
+
+  /** Number of keys that currently have a limiter */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Returns the keys that currently have a limiter, least recently used first.
+   *
+   * @returns {string[]} The keys.
+   */
+  public keys(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /**
+   * Returns the limiter of a key, creating it from the template and the key's overrides if needed.
+   * Unless the options set a `storeKey`, the key is used as the store key, so limiters of
+   * different keys never share state even when the template names a shared store.
+   *
+   * @param {string} key - The key.
+   * @returns {ApiRateLimiter<T>} The limiter of the key.
+   * @throws {InvalidOptionsError} When the merged options of a new key are invalid.
+   */
+  public get(key: string): ApiRateLimiter<T> {
+    return this.touch(key).limiter;
+  }
+
+  /**
+   * Adds a request to the limiter of a key, whose admissions take tokens from the global limiter too.
+   *
+   * @param {string} key - The key whose limits apply.
+   * @param {ApiRequest<T>} request - The API request function to be executed.
+   * @param {AddRequestOptions} [options] - Per-request options of the key's limiter.
+   * @returns {Promise<T>} A promise that resolves with the API response.
+   *
+   * @throws Any error of `ApiRateLimiter.addRequest`.
+   */
+  public async addRequest(
+    key: string,
+    request: ApiRequest<T>,
+    options: AddRequestOptions<T> = {}
+  ): Promise<T> {
+    const entry = this.touch(key);
+    entry.pending++;
+    try {
+      return await entry.limiter.addRequest(request, options);
+    } finally {
+      entry.pending--;
+      entry.lastUsedAt = this.clock.now();
+    }
+  }
+
+  /**
+   * Removes the limiter of a key and shuts it down once the requests it still holds have been processed.
+   * Further requests of the key start from fresh limits.
+   *
+   * @param {string} key - The key to remove.
+   * @returns {boolean} `true` if the key had a limiter.
+   */
+  public delete(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return false;
+    }
+    this.remove(key, entry);
+    return true;
+  }
+
+  /**
+   * Evicts keys without pending requests that have been idle for `idleTtlMs`,
+   * then the least recently used idle keys beyond `maxKeys`. Keys whose windows are not full again are kept.
+   * Runs periodically when `idleTtlMs` is set, and on every new key.
+   *
+   * @returns {Promise<void>} A promise that resolves once the idle keys have been checked.
+   */
+  public prune(): Promise<void> {
+    return this.evictIdle(this.options.maxKeys ?? Infinity);
+  }
+
+  /**
+   * Stops the periodic eviction. The registry keeps working, evicting only when keys are added.
+   */
+  public dispose(): void {
+    if (this.sweepTimer !== null) {
+      this.clock.clearTimeout(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Prunes the idle keys every `idleTtlMs` on the clock of the template, without keeping the process alive.
+   */
+  private scheduleSweep(idleTtlMs: number): void {
+    this.sweepTimer = this.clock.setTimeout(() => {
+      this.prune();
+      this.scheduleSweep(idleTtlMs);
+    }, idleTtlMs);
+    (this.sweepTimer as NodeJS.Timeout).unref?.();
+  }
+
+  /**
+   * Evicts idle keys past `idleTtlMs`, then least recently used idle keys until at most `maxSize` remain,
+   * skipping keys whose windows are not full again or that are used while their status is read.
+   */
+  private async evictIdle(maxSize: number): Promise<void> {
+    const { idleTtlMs } = this.options;
+    const now = this.clock.now();
+    let excess = this.entries.size - maxSize;
+    for (const [key, entry] of [...this.entries]) {
+      const expired =
+        idleTtlMs !== undefined && now - entry.lastUsedAt >= idleTtlMs;
+      if (entry.pending > 0 || (excess <= 0 && !expired)) {
+        continue;
+      }
+      const usedAt = entry.lastUsedAt;
+      if (
+        (await this.isRecovered(entry)) &&
+        this.entries.get(key) === entry &&
+        entry.pending === 0 &&
+        entry.lastUsedAt === usedAt
+      ) {
+        this.remove(key, entry);
+        excess--;
+      }
+    }
+  }
+
+  /**
+   * Whether the limiter of an entry holds no requests and every window is full again,
+   * so that a fresh limiter for the key would not grant more than it.
+   */
+  private async isRecovered(entry: Entry<T>): Promise<boolean> {
+    try {
+      const { queueSize, inFlight, windows } = await entry.limiter.getStatus();
+      return (
+        queueSize === 0 &&
+        inFlight === 0 &&
+        windows.every(({ remaining, limit }) => remaining >= limit)
+      );
+    } catch (error) {
+      this.errorHandler(error);
+      return false;
+    }
+  }
+
+  /**
+   * Removes the entry of a key and shuts its limiter down, which detaches it from the global limiter.
+   */
+  private remove(key: string, entry: Entry<T>): void {
+    this.entries.delete(key);
+    entry.limiter.shutdown().catch(this.errorHandler);
+  }
+
+  /**
+   * Returns the entry of a key, creating it if needed, and marks it as most recently used.
+   */
+  private touch(key: string): Entry<T> {
+    let entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+    } else {
+      entry = {
+        limiter: new ApiRateLimiter<T>(this.optionsFor(key), this.errorHandler),
+        pending: 0,
+        lastUsedAt: this.clock.now(),
+      };
+      this.evictIdle((this.options.maxKeys ?? Infinity) - 1);
+    }
+    this.entries.set(key, entry);
+    entry.lastUsedAt = this.clock.now();
+    return entry;
+  }
+
+  /**
+   * Merges the template with the overrides of a key, under the global limiter if there is one.
+   */
+  private optionsFor(key: string): ApiRateLimiterOptions {
+    const { template, overrides } = this.options;
+    const override =
+      typeof overrides === "function" ? overrides(key) : overrides?.[key];
+    return {
+      storeKey: key,
+      name: key,
+      ...template,
+      ...override,
+      ...(this.global && { parent: this.global }),
+    };
+  }
+}
+
+export default LimiterRegistry;
@@ -0,0 +1,385 @@
+/**
+ * @fileoverview Metrics collection for the API Rate Limiter
+ * Counts and times requests from the limiter's lifecycle events and renders them
+ * in the Prometheus text format, in OpenMetrics or as a JSON snapshot
+ */
+
+import type ApiRateLimiter from "./api-rate-limiter";
+import { InvalidOptionsError } from "./errors";
+import {
+  DequeuedEvent,
+  FailedEvent,
+  RejectedEvent,
+  SucceededEvent,
+} from "./type";
+
+/**
+ * Options of a RateLimiterMetrics
+ * @interface MetricsOptions
+ */
+export interface MetricsOptions {
+  /** Prefix of every metric name (default: "api_rate_limiter") */
+  prefix?: string;
+  /** Labels added to every sample, e.g. `{ vendor: "github" }` */
+  labels?: Record<string, string>;
+  /** Upper bounds in seconds of the latency histogram buckets, ascending (default: 5ms to 60s) */
+  buckets?: number[];
+}
+
+/**
+ * Observations of a histogram for one lane
+ * @interface HistogramSnapshot
+ */
+export interface HistogramSnapshot {
+  /** Cumulative number of observations less than or equal to each upper bound, in seconds */
+  buckets: { le: number; count: number }[];
+  /** Sum of all observations in seconds */
+  sum: number;
+  /** Number of observations */
+  count: number;
+}
+
+/**
+ * All metrics of a rate limiter at one point in time.
+ * Per-lane values are keyed by lane name, per-window values by window duration in milliseconds.
+ * @interface MetricsSnapshot
+ */
+export interface MetricsSnapshot {
+  counters: {
+    /** Requests admitted by the rate limits, retries included */
+    admitted: Record<string, number>;
+    /** Attempts that resolved */
+    succeeded: Record<string, number>;
+    /** Attempts that rejected, whether retried or not */
+    failed: Record<string, number>;
+    /** Requests refused because the queue was full */
+    rejected: Record<string, number>;
+  };
+  histograms: {
+    /** Time requests waited in the queue, per attempt */
+    queueWaitSeconds: Record<string, HistogramSnapshot>;
+    /** Execution time of requests, per attempt */
+    executionSeconds: Record<string, HistogramSnapshot>;
+  };
+  gauges: {
+    /** Requests waiting in the queue */
+    queueDepth: Record<string, number>;
+    /** Admitted requests that have not settled yet */
+    inFlight: number;
+    /** Remaining tokens of each window under the effective limits */
+    tokensRemaining: Record<string, number>;
+    /** Configured limit of each window */
+    tokenLimit: Record<string, number>;
+  };
+}
+
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60,
+];
+
+/** A histogram with one series per lane */
+class Histogram {
+  private series = new Map<
+    string,
+    { counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(private bounds: number[]) {}
+
+  observe(lane: string, seconds: number): void {
+    let series = this.series.get(lane);
+    if (!series) {
+      series = { counts: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(lane, series);
+    }
+    const index = this.bounds.findIndex((bound) => seconds <= bound);
+    if (index !== -1) {
+      series.counts[index]++;
+    }
+    series.sum += seconds;
+    series.count++;
+  }
+
+  snapshot(): Record<string, HistogramSnapshot> {
+    const result: Record<string, HistogramSnapshot> = {};
+    this.series.forEach(({ counts, sum, count }, lane) => {
+      let cumulative = 0;
+      result[lane] = {
+        buckets: this.bounds.map((le, index) => ({
+          le,
+          count: (cumulative += counts[index]),
+        })),
+        sum,
+        count,
+      };
+    });
+    return result;
+  }
+}
+
+/** Adds one to the counter of `key` */
+const increment = (counter: Record<string, number>, key: string): void => {
+  counter[key] = (counter[key] ?? 0) + 1;
+};
+
+/** Formats a sample value, spelling out infinities and NaN as the exposition formats require */
+const formatValue = (value: number): string => {
+  if (Number.isNaN(value)) {
+    return "NaN";
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? "+Inf" : "-Inf";
+  }
+  return String(value);
+};
+
+/**
+ * Collects metrics of a rate limiter from its lifecycle events.
+ *
+ * Counters and histograms are updated as events arrive; gauges are read from `getStatus()`
+ * whenever the metrics are rendered, so rendering is asynchronous.
+ */
+class RateLimiterMetrics<T> {
+  private prefix: string;
+  private labels: Record<string, string>;
+  private bounds: number[];
+  private counters: MetricsSnapshot["counters"] = {
+    admitted: {},
+    succeeded: {},
+    failed: {},
+    rejected: {},
+  };
+  private queueWait: Histogram;
+  private execution: Histogram;
+
+  /**
+   * Creates an instance of RateLimiterMetrics and starts listening to the limiter.
+   * @param {ApiRateLimiter<T>} limiter - The rate limiter to observe.
+   * @param {MetricsOptions} [options] - Naming and bucket options.
+   *
+   * @throws {InvalidOptionsError} If the buckets are empty, not positive or not ascending.
+   */
+  constructor(
+    private limiter: ApiRateLimiter<T>,
+    options: MetricsOptions = {}
+  ) {
+    this.prefix = options.prefix ?? "api_rate_limiter";
+    this.labels = options.labels ?? {};
+    this.bounds = options.buckets ?? DEFAULT_BUCKETS;
+    if (
+      this.bounds.length === 0 ||
+      this.bounds.some(
+        (bound, index) =>
+          !(bound > 0) ||
+          !Number.isFinite(bound) ||
+          (index > 0 && bound <= this.bounds[index - 1])
+      )
+    ) {
+      throw new InvalidOptionsError(
+        "buckets must be positive, finite and ascending"
+      );
+    }
+    this.queueWait = new Histogram(this.bounds);
+    this.execution = new Histogram(this.bounds);
+
+    limiter.on("dequeued", this.onDequeued);
+    limiter.on("succeeded", this.onSucceeded);
+    limiter.on("failed", this.onFailed);
+    limiter.on("rejected", this.onRejected);
+  }
+
+  /**
+   * Stops listening to the limiter. Collected values are kept.
+   */
+  public detach(): void {
+    this.limiter.off("dequeued", this.onDequeued);
+    this.limiter.off("succeeded", this.onSucceeded);
+    this.limiter.off("failed", this.onFailed);
+    this.limiter.off("rejected", this.onRejected);
+  }
+
+  /**
+   * Returns every metric as a plain object, suitable for JSON.
+   *
+   * @returns {Promise<MetricsSnapshot>} Counters, histograms and current gauges.
+   */
+  public async snapshot(): Promise<MetricsSnapshot> {
+    const status = await this.limiter.getStatus();
+    return {
+      counters: {
+        admitted: { ...this.counters.admitted },
+        succeeded: { ...this.counters.succeeded },
+        failed: { ...this.counters.failed },
+        rejected: { ...this.counters.rejected },
+      },
+      histograms: {
+        queueWaitSeconds: this.queueWait.snapshot(),
+        executionSeconds: this.execution.snapshot(),
+      },
+      gauges: {
+        queueDepth: Object.fromEntries(
+          status.lanes.map((lane) => [lane.name, lane.queueSize])
+        ),
+        inFlight: status.inFlight,
+        tokensRemaining: Object.fromEntries(
+          status.windows.map((window) => [window.durationMs, window.remaining])
+        ),
+        tokenLimit: Object.fromEntries(
+          status.windows.map((window) => [window.durationMs, window.limit])
+        ),
+      },
+    };
+  }
+
+  /**
+   * Renders every metric in the Prometheus text exposition format (version 0.0.4).
+   *
+   * @returns {Promise<string>} The exposition, ending with a newline.
+   */
+  public async toPrometheus(): Promise<string> {
+    return this.render(await this.snapshot(), false);
+  }
+
+  /**
+   * Renders every metric in the OpenMetrics text format, terminated by `# EOF`.
+   *
+   * @returns {Promise<string>} The exposition, ending with a newline.
+   */
+  public async toOpenMetrics(): Promise<string> {
+    return this.render(await this.snapshot(), true);
+  }
+
+  private onDequeued = (event: DequeuedEvent): void => {
+    if (event.reason === "admitted") {
+      increment(this.counters.admitted, event.lane);
+      this.queueWait.observe(event.lane, event.waitMs / 1000);
+    }
+  };
+
+  private onSucceeded = (event: SucceededEvent<T>): void => {
+    increment(this.counters.succeeded, event.lane);
+    this.execution.observe(event.lane, event.durationMs / 1000);
+  };
+
+  private onFailed = (event: FailedEvent): void => {
+    increment(this.counters.failed, event.lane);
+    this.execution.observe(event.lane, event.durationMs / 1000);
+  };
+
+  private onRejected = (event: RejectedEvent): void => {
+    increment(this.counters.rejected, event.lane);
+  };
+
+  /**
+   * Renders a snapshot as text exposition. OpenMetrics names counter families without
+   * their `_total` suffix and ends with `# EOF`; the samples are the same in both formats.
+   */
+  private render(snapshot: MetricsSnapshot, openMetrics: boolean): string {
+    const lines: string[] = [];
+    const family = (name: string, type: string, help: string) => {
+      const familyName =
+        openMetrics && type === "counter" ? name.replace(/_total$/, "") : name;
+      lines.push(`# HELP ${this.prefix}_${familyName} ${help}`);
+      lines.push(`# TYPE ${this.prefix}_${familyName} ${type}`);
+    };
+    const sample = (
+      name: string,
+      labels: Record<string, string>,
+      value: number
+    ) => {
+      lines.push(
+        `${this.prefix}_${name}${this.formatLabels(labels)} ${formatValue(
+          value
+        )}`
+      );
+    };
+
+    const counters: [keyof MetricsSnapshot["counters"], string][] = [
+      ["admitted", "Requests admitted by the rate limits."],
+      ["succeeded", "Request attempts that resolved."],
+      ["failed", "Request attempts that rejected."],
+      ["rejected", "Requests refused because the queue was full."],
+    ];
+    for (const [name, help] of counters) {
+      family(`${name}_total`, "counter", help);
+      for (const [lane, value] of Object.entries(snapshot.counters[name])) {
+        sample(`${name}_total`, { lane }, value);
+      }
+    }
+
+    const histograms: [keyof MetricsSnapshot["histograms"], string, string][] =
+      [
+        [
+          "queueWaitSeconds",
+          "queue_wait_seconds",
+          "Time requests waited in the queue.",
+        ],
+        [
+          "executionSeconds",
+          "execution_seconds",
+          "Execution time of request attempts.",
+        ],
+      ];
+    for (const [key, name, help] of histograms) {
+      family(name, "histogram", help);
+      for (const [lane, histogram] of Object.entries(
+        snapshot.histograms[key]
+      )) {
+        for (const bucket of histogram.buckets) {
+          sample(
+            `${name}_bucket`,
+            { lane, le: String(bucket.le) },
+            bucket.count
+          );
+        }
+        sample(`${name}_bucket`, { lane, le: "+Inf" }, histogram.count);
+        sample(`${name}_sum`, { lane }, histogram.sum);
+        sample(`${name}_count`, { lane }, histogram.count);
+      }
+    }
+
+    family("queue_depth", "gauge", "Requests waiting in the queue.");
+    for (const [lane, value] of Object.entries(snapshot.gauges.queueDepth)) {
+      sample("queue_depth", { lane }, value);
+    }
+    family(
+      "in_flight",
+      "gauge",
+      "Admitted requests that have not settled yet."
+    );
+    sample("in_flight", {}, snapshot.gauges.inFlight);
+    family(
+      "tokens_remaining",
+      "gauge",
+      "Remaining tokens of each window under the effective limits."
+    );
+    for (const [window, value] of Object.entries(
+      snapshot.gauges.tokensRemaining
+    )) {
+      sample("tokens_remaining", { window_ms: window }, value);
+    }
+    family("token_limit", "gauge", "Configured limit of each window.");
+    for (const [window, value] of Object.entries(snapshot.gauges.tokenLimit)) {
+      sample("token_limit", { window_ms: window }, value);
+    }
+
+    if (openMetrics) {
+      lines.push("# EOF");
+    }
+    return `${lines.join("\n")}\n`;
+  }
+
+  /** Formats the constant labels followed by `labels` as `{name="value",...}` */
+  private formatLabels(labels: Record<string, string>): string {
+    const pairs = Object.entries({ ...this.labels, ...labels }).map(
+      ([name, value]) =>
+        `${name}="${value
+          .replace(/\\/g, "\\\\")
+          .replace(/"/g, '\\"')
+          .replace(/\n/g, "\\n")}"`
+    );
+    return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+  }
+}
+
+export { RateLimiterMetrics, DEFAULT_BUCKETS };
@@ -0,0 +1,325 @@
+/**
+ * @fileoverview HTTP middleware for the API Rate Limiter
+ * Limits incoming requests per key with `tryAcquire()`, answering with 429 and the
+ * `Retry-After` and IETF `RateLimit-*` headers, for Node's `http` module, Express, Koa and Fastify
+ */
+
+import ApiRateLimiter from "./api-rate-limiter";
+import { InvalidOptionsError } from "./errors";
+import LimiterRegistry from "./limiter-registry";
+import { AcquireResult, Clock } from "./type";
+
+/**
+ * Options of the rate limit middleware
+ * @interface RateLimitMiddlewareOptions
+ */
+export interface RateLimitMiddlewareOptions<R> {
+  /**
+   * The limiter every request takes tokens from, or a registry holding one limiter per key.
+   * The global limit of a registry applies too, as the parent of every key's limiter.
+   */
+  limiter: ApiRateLimiter<any> | LimiterRegistry<any>;
+  /** Returns the key of a request, or `undefined` to let it through unlimited (default: the client IP) */
+  key?: (request: R) => string | undefined;
+  /** Returns the cost of a request in tokens (default: 1) */
+  cost?: (request: R) => number;
+  /** Time in milliseconds a request may wait for tokens instead of being rejected (default: 0) */
+  maxWaitMs?: number;
+  /** Whether to send the `RateLimit-Limit`, `RateLimit-Remaining` and `RateLimit-Reset` headers (default: true) */
+  headers?: boolean;
+  /** Body of 429 responses (default: "Too Many Requests") */
+  message?: string;
+}
+
+/**
+ * The subset of an `http.IncomingMessage` (or Express request) used by the middleware
+ * @interface IncomingRequestLike
+ */
+export interface IncomingRequestLike {
+  headers: Record<string, string | string[] | undefined>;
+  /** Client IP as set by frameworks such as Express */
+  ip?: string;
+  socket?: { remoteAddress?: string };
+}
+
+/**
+ * The `close` event of an `http.ServerResponse`, emitted when the client disconnects before the response was sent
+ * @interface CloseEmitterLike
+ */
+export interface CloseEmitterLike {
+  once(event: "close", listener: () => void): unknown;
+  off(event: "close", listener: () => void): unknown;
+}
+
+/**
+ * The subset of an `http.ServerResponse` (or Express response) used by the middleware
+ * @interface ServerResponseLike
+ */
+export interface ServerResponseLike extends Partial<CloseEmitterLike> {
+  statusCode: number;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string): unknown;
+}
+
+/**
+ * The subset of a Koa context used by the middleware
+ * @interface KoaContextLike
+ */
+export interface KoaContextLike {
+  headers: Record<string, string | string[] | undefined>;
+  ip?: string;
+  status: number;
+  body: unknown;
+  set(name: string, value: string): void;
+  /** The Node response, to stop waiting for tokens when the client disconnects */
+  res?: CloseEmitterLike;
+}
+
+/**
+ * The subset of a Fastify reply used by the middleware
+ * @interface FastifyReplyLike
+ */
+export interface FastifyReplyLike {
+  header(name: string, value: string): unknown;
+  code(statusCode: number): FastifyReplyLike;
+  send(payload?: unknown): unknown;
+  /** The Node response, to stop waiting for tokens when the client disconnects */
+  raw?: CloseEmitterLike;
+}
+
+/** The decision on one incoming request */
+interface Decision {
+  result: AcquireResult;
+  headers: [string, string][];
+}
+
+/**
+ * Keys requests by client IP: `ip` when the framework sets it (Express, Koa, Fastify), else the socket's remote address.
+ *
+ * @param {object} request - The incoming request.
+ * @returns {string | undefined} The client IP.
+ */
+const keyByIp = (request: {
+  ip?: string;
+  socket?: { remoteAddress?: string };
+}): string | undefined => request.ip ?? request.socket?.remoteAddress;
+
+/**
+ * Creates a key extractor that keys requests by a header, e.g. an API key.
+ * Requests without the header are not limited.
+ *
+ * @param {string} name - The header name, case-insensitive.
+ * @returns A key extractor for the `key` option.
+ */
+const keyByHeader =
+  (name: string) =>
+  (request: {
+    headers: Record<string, string | string[] | undefined>;
+  }): string | undefined => {
+    const value = request.headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+/**
+ * Waits on a clock, unless the client disconnects first.
+ *
+ * @param {Clock} clock - The clock of the limiter.
+ * @param {number} delayMs - Time to wait in milliseconds.
+ * @param {Partial<CloseEmitterLike>} [connection] - The response whose `close` event ends the wait.
+ * @returns {Promise<boolean>} `true` once the time has passed, `false` if the client disconnected.
+ */
+const waitUnlessClosed = (
+  clock: Clock,
+  delayMs: number,
+  connection?: Partial<CloseEmitterLike>
+): Promise<boolean> =>
+  new Promise((resolve) => {
+    const onClose = () => {
+      clock.clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = clock.setTimeout(() => {
+      connection?.off?.("close", onClose);
+      resolve(true);
+    }, delayMs);
+    connection?.once?.("close", onClose);
+  });
+
+/**
+ * Creates the decision function shared by every adapter.
+ * A denied request that would be allowed within `maxWaitMs` reserves its tokens and waits for them;
+ * a reservation that turns out to take longer, or whose client disconnects during the wait,
+ * is cancelled and the request is rejected.
+ *
+ * @throws {InvalidOptionsError} If `maxWaitMs` is negative.
+ */
+const createDecider = <R>(
+  options: RateLimitMiddlewareOptions<R>,
+  defaultKey: (request: R) => string | undefined
+) => {
+  const {
+    limiter,
+    key = defaultKey,
+    cost,
+    maxWaitMs = 0,
+    headers = true,
+  } = options;
+  if (!(maxWaitMs >= 0)) {
+    throw new InvalidOptionsError("maxWaitMs must be non-negative");
+  }
+
+  return async (
+    request: R,
+    connection?: Partial<CloseEmitterLike>
+  ): Promise<Decision | null> => {
+    const requestKey = key(request);
+    if (requestKey === undefined) {
+      return null;
+    }
+    const keyLimiter =
+      limiter instanceof LimiterRegistry ? limiter.get(requestKey) : limiter;
+    const requestCost = cost?.(request) ?? 1;
+
+    let result = await keyLimiter.tryAcquire(requestCost);
+    if (!result.allowed && result.retryAfterMs <= maxWaitMs) {
+      const reservation = await keyLimiter.reserve(requestCost);
+      if (
+        reservation.delayMs <= maxWaitMs &&
+        (await waitUnlessClosed(
+          keyLimiter.clock,
+          reservation.delayMs,
+          connection
+        ))
+      ) {
+        result = { ...result, allowed: true, retryAfterMs: 0, remaining: 0 };
+      } else {
+        await reservation.cancel();
+        result = { ...result, retryAfterMs: reservation.delayMs };
+      }
+    }
+
+    const responseHeaders: [string, string][] = headers
+      ? [
+          ["RateLimit-Limit", String(result.limit)],
+          ["RateLimit-Remaining", String(result.remaining)],
+          ["RateLimit-Reset", String(Math.ceil(result.resetMs / 1000))],
+        ]
+      : [];
+    if (!result.allowed) {
+      responseHeaders.push([
+        "Retry-After",
+        String(Math.ceil(result.retryAfterMs / 1000)),
+      ]);
+    }
+    return { result, headers: responseHeaders };
+  };
+};
+
+/**
+ * Creates a rate limit middleware for Node's `http` module, also usable as Express/Connect middleware.
+ *
+ * With `next`, an allowed request continues with `next()` and errors are passed to `next(error)`.
+ * Without it, the returned promise resolves with `true` when the request may be handled,
+ * and `false` once a 429 response has been sent.
+ *
+ * @param {RateLimitMiddlewareOptions} options - Limiter, key, cost, waiting and response options.
+ * @returns The middleware.
+ * @throws {InvalidOptionsError} If `maxWaitMs` is negative.
+ */
+const httpRateLimit = <R extends IncomingRequestLike = IncomingRequestLike>(
+  options: RateLimitMiddlewareOptions<R>
+) => {
+  const decide = createDecider(options, keyByIp);
+  const message = options.message ?? "Too Many Requests";
+
+  return async (
+    request: R,
+    response: ServerResponseLike,
+    next?: (error?: unknown) => void
+  ): Promise<boolean> => {
+    let decision: Decision | null;
+    try {
+      decision = await decide(request, response);
+    } catch (error) {
+      if (!next) {
+        throw error;
+      }
+      next(error);
+      return false;
+    }
+    decision?.headers.forEach(([name, value]) =>
+      response.setHeader(name, value)
+    );
+    if (decision && !decision.result.allowed) {
+      response.statusCode = 429;
+      response.setHeader("Content-Type", "text/plain; charset=utf-8");
+      response.end(message);
+      return false;
+    }
+    next?.();
+    return true;
+  };
+};
+
+/**
+ * Creates a rate limit middleware for Express. Same as `httpRateLimit`.
+ */
+const expressRateLimit = httpRateLimit;
+
+/**
+ * Creates a rate limit middleware for Koa. The key extractor and `cost` receive the context.
+ *
+ * @param {RateLimitMiddlewareOptions} options - Limiter, key, cost, waiting and response options.
+ * @returns The middleware.
+ * @throws {InvalidOptionsError} If `maxWaitMs` is negative.
+ */
+const koaRateLimit = <C extends KoaContextLike = KoaContextLike>(
+  options: RateLimitMiddlewareOptions<C>
+) => {
+  const decide = createDecider(options, keyByIp);
+  const message = options.message ?? "Too Many Requests";
+
+  return async (context: C, next: () => Promise<unknown>): Promise<void> => {
+    const decision = await decide(context, context.res);
+    decision?.headers.forEach(([name, value]) => context.set(name, value));
+    if (decision && !decision.result.allowed) {
+      context.status = 429;
+      context.body = message;
+      return;
+    }
+    await next();
+  };
+};
+
+/**
+ * Creates a Fastify `onRequest` hook that rate limits requests:
+ * `fastify.addHook("onRequest", fastifyRateLimit(options))`.
+ *
+ * @param {RateLimitMiddlewareOptions} options - Limiter, key, cost, waiting and response options.
+ * @returns The hook.
+ * @throws {InvalidOptionsError} If `maxWaitMs` is negative.
+ */
+const fastifyRateLimit = <R extends IncomingRequestLike = IncomingRequestLike>(
+  options: RateLimitMiddlewareOptions<R>
+) => {
+  const decide = createDecider(options, keyByIp);
+  const message = options.message ?? "Too Many Requests";
+
+  return async (request: R, reply: FastifyReplyLike): Promise<unknown> => {
+    const decision = await decide(request, reply.raw);
+    decision?.headers.forEach(([name, value]) => reply.header(name, value));
+    if (decision && !decision.result.allowed) {
+      return reply.code(429).send(message);
+    }
+    return undefined;
+  };
+};
+
+export {
+  httpRateLimit,
+  expressRateLimit,
+  koaRateLimit,
+  fastifyRateLimit,
+  keyByIp,
+  keyByHeader,
+};
@@ -0,0 +1,207 @@
+/**
+ * @fileoverview fetch wrapper for the API Rate Limiter
+ * Sends every call through a limiter's queue, keeps the limiter in sync with the rate limit
+ * headers of the responses and retries 429/503 responses within the same quota
+ */
+
+import type ApiRateLimiter from "./api-rate-limiter";
+import { RetryableResponseError } from "./errors";
+import { resolveRetryPolicy } from "./retry-policy";
+import { RateLimitFeedback, RequestOutcome, RetryOptions } from "./type";
+
+/**
+ * The subset of a fetch `Response` read by the header parser
+ * @interface ResponseLike
+ */
+export interface ResponseLike {
+  status: number;
+  headers: { get(name: string): string | null };
+}
+
+/**
+ * Options of a rate-limited fetch
+ * @interface RateLimitedFetchOptions
+ */
+export interface RateLimitedFetchOptions {
+  /** The fetch implementation to wrap (default: the global `fetch`) */
+  fetch?: typeof fetch;
+  /** Statuses whose responses are retried (default: 429 and 503) */
+  retryStatuses?: number[];
+  /** Backoff of retried responses; every retry is queued again and takes tokens (default: 3 attempts) */
+  retry?: Omit<RetryOptions, "retryable">;
+  /** Lane every call is queued in (default: the limiter's default lane) */
+  lane?: string;
+  /** Returns the cost of a call in tokens (default: 1) */
+  cost?: (input: FetchInput, init?: RequestInit) => number;
+  /** Reads upstream rate limit feedback from a response at `now`, the time of the limiter's clock (default: `parseRateLimitHeaders`) */
+  parseFeedback?: (
+    response: Response,
+    now: number
+  ) => RateLimitFeedback | undefined;
+}
+
+/** The resource argument of `fetch` */
+export type FetchInput = Parameters<typeof fetch>[0];
+
+/**
+ * Leak rate of the Shopify REST Admin API bucket, in calls per second.
+ * Used to estimate when a partially used bucket is empty again.
+ */
+const SHOPIFY_LEAK_RATE = 2;
+
+/**
+ * Parses a number header, ignoring missing and malformed values.
+ */
+const numberHeader = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === "") {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Converts a reset header to a timestamp in milliseconds. Values are read as epoch milliseconds
+ * or seconds when they are large enough to be timestamps (GitHub, X), otherwise as seconds from now
+ * (IETF `RateLimit-Reset` and most `X-RateLimit-Reset` implementations).
+ */
+const resetTimestamp = (reset: number, now: number): number => {
+  if (reset >= 1e12) {
+    return reset;
+  }
+  if (reset >= 1e9) {
+    return reset * 1000;
+  }
+  return now + reset * 1000;
+};
+
+/**
+ * Reads upstream rate limit feedback from the status and headers of a response. Recognizes:
+ *  - `Retry-After` in seconds or as an HTTP date, and status 429 as a rate limit.
+ *  - Shopify's `X-Shopify-Shop-Api-Call-Limit: used/limit`, whose bucket leaks 2 calls per second.
+ *  - GitHub's and the generic `X-RateLimit-Remaining`/`X-RateLimit-Reset`, and the IETF `RateLimit-Remaining`/`RateLimit-Reset`.
+ * Stripe signals its limits with status 429 alone.
+ *
+ * @param {ResponseLike} response - The response to read.
+ * @param {number} [now=Date.now()] - The current timestamp in milliseconds.
+ * @returns {RateLimitFeedback | undefined} The feedback, or `undefined` when the response carries none.
+ */
+function parseRateLimitHeaders(
+  response: ResponseLike,
+  now: number = Date.now()
+): RateLimitFeedback | undefined {
+  const { headers } = response;
+  const feedback: RateLimitFeedback = {};
+  if (response.status === 429) {
+    feedback.limited = true;
+  }
+
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter !== null) {
+    const seconds = numberHeader(retryAfter);
+    const retryAt = seconds === undefined ? Date.parse(retryAfter) : NaN;
+    if (seconds !== undefined && seconds >= 0) {
+      feedback.retryAfterMs = seconds * 1000;
+    } else if (Number.isFinite(retryAt)) {
+      feedback.retryAfterMs = Math.max(retryAt - now, 0);
+    }
+  }
+
+  const callLimit = headers
+    .get("x-shopify-shop-api-call-limit")
+    ?.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+  if (callLimit) {
+    const used = Number(callLimit[1]);
+    feedback.remaining = Math.max(Number(callLimit[2]) - used, 0);
+    feedback.resetAt = now + (used / SHOPIFY_LEAK_RATE) * 1000;
+  } else {
+    const remaining = numberHeader(
+      headers.get("x-ratelimit-remaining") ?? headers.get("ratelimit-remaining")
+    );
+    const reset = numberHeader(
+      headers.get("x-ratelimit-reset") ?? headers.get("ratelimit-reset")
+    );
+    if (remaining !== undefined && reset !== undefined) {
+      feedback.remaining = remaining;
+      feedback.resetAt = resetTimestamp(reset, now);
+    }
+  }
+
+  return Object.keys(feedback).length > 0 ? feedback : undefined;
+}
+
+/**
+ * Creates a drop-in `fetch` whose calls wait in the queue of a limiter.
+ *
+ * The rate limit headers of every response are reported to the limiter as feedback, so that it pauses
+ * and caps its admissions to what the upstream still allows. Responses with a retryable status
+ * are queued again with backoff, taking tokens like any other call, unless Stripe answered
+ * `Stripe-Should-Retry: false`; once the attempts are used up, the last response is returned.
+ * Network errors reject as with `fetch`. Bodies of retried calls must be replayable (e.g. strings);
+ * `Request` objects are cloned for every attempt.
+ *
+ * @param {ApiRateLimiter<Response>} limiter - The limiter every call goes through.
+ * @param {RateLimitedFetchOptions} [options] - fetch implementation, retry, lane and cost options.
+ * @returns {typeof fetch} The rate-limited fetch. `init.signal` also removes a waiting call from the queue.
+ *
+ * @throws {InvalidOptionsError} If the retry policy is invalid.
+ */
+function createRateLimitedFetch(
+  limiter: ApiRateLimiter<Response>,
+  options: RateLimitedFetchOptions = {}
+): (input: FetchInput, init?: RequestInit) => Promise<Response> {
+  const {
+    fetch: fetchImpl = globalThis.fetch,
+    retryStatuses = [429, 503],
+    lane,
+    cost,
+    parseFeedback = parseRateLimitHeaders,
+  } = options;
+  const retry = resolveRetryPolicy({
+    ...options.retry,
+    retryable: (error) => error instanceof RetryableResponseError,
+  });
+
+  const feedback = (outcome: RequestOutcome<Response>) => {
+    // Reset times are compared with the limiter's clock, which may not be the wall clock.
+    const now = limiter.clock.now();
+    if (outcome.ok) {
+      return parseFeedback(outcome.result, now);
+    }
+    return outcome.error instanceof RetryableResponseError
+      ? parseFeedback(outcome.error.response, now)
+      : undefined;
+  };
+
+  return (input, init) => {
+    let attempt = 0;
+    return limiter.addRequest(
+      async () => {
+        attempt++;
+        const response = await fetchImpl(
+          input instanceof Request ? input.clone() : input,
+          init
+        );
+        if (
+          attempt < retry.maxAttempts &&
+          retryStatuses.includes(response.status) &&
+          response.headers.get("stripe-should-retry") !== "false"
+        ) {
+          // Release the connection; only the status and headers of a retried response are read
+          response.body?.cancel().catch(() => undefined);
+          throw new RetryableResponseError(response);
+        }
+        return response;
+      },
+      {
+        lane,
+        signal: init?.signal ?? undefined,
+        retry,
+        cost: cost?.(input, init),
+        feedback,
+      }
+    );
+  };
+}
+
+export { createRateLimitedFetch, parseRateLimitHeaders };
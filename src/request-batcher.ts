@@ -0,0 +1,187 @@
+import type ApiRateLimiter from "./api-rate-limiter";
+import { BatchResultError, InvalidOptionsError } from "./errors";
+import { TimerHandle } from "./type";
+
+/**
+ * Options of a RequestBatcher
+ * @interface RequestBatcherOptions
+ */
+export interface RequestBatcherOptions<I, V> {
+  /**
+   * Calls the bulk endpoint with the items of a batch. Must resolve with one result per item, in item order;
+   * an `Error` in place of a result rejects that item only.
+   */
+  batch: (items: I[]) => Promise<(V | Error)[]>;
+  /** Maximum number of items per batch call (default: 100) */
+  maxBatchSize?: number;
+  /** Time in milliseconds a new batch collects items before it is queued in the limiter (default: 0) */
+  maxDelayMs?: number;
+  /** Lane the batch calls are queued in (default: the limiter's default lane) */
+  lane?: string;
+  /** Number of tokens a batch call takes, whatever its size (default: 1) */
+  cost?: number;
+  /** Maps the error of a failed batch call to the error each item rejects with (default: the error itself) */
+  mapError?: (error: unknown, item: I) => unknown;
+}
+
+/** A batch that collects items until it is full or its call starts */
+interface Batch<I, V> {
+  items: I[];
+  callers: { resolve: (value: V) => void; reject: (reason: any) => void }[];
+  timer: TimerHandle | null;
+  submitted: boolean;
+}
+
+/**
+ * Merges individual items into calls of a bulk endpoint that counts as one request against the quota.
+ *
+ * A batch is queued in the limiter as a single request and keeps collecting items while it waits
+ * for admission, so the busier the limiter, the fuller the batches. It closes when it holds
+ * `maxBatchSize` items or its call starts; later items open the next batch.
+ */
+class RequestBatcher<I, V> {
+  private open: Batch<I, V> | null = null;
+  private maxBatchSize: number;
+  private maxDelayMs: number;
+
+  /**
+   * Creates an instance of RequestBatcher.
+   * @param {ApiRateLimiter<any>} limiter - The limiter the batch calls go through.
+   * @param {RequestBatcherOptions<I, V>} options - Batch function, size, delay and error mapping options.
+   *
+   * @throws {InvalidOptionsError} If `maxBatchSize` is not a positive integer or `maxDelayMs` is negative.
+   */
+  constructor(
+    private limiter: ApiRateLimiter<any>,
+    private options: RequestBatcherOptions<I, V>
+  ) {
+    const { maxBatchSize = 100, maxDelayMs = 0 } = options;
+    if (!Number.isInteger(maxBatchSize) || maxBatchSize <= 0) {
+      throw new InvalidOptionsError("maxBatchSize must be a positive integer");
+    }
+    if (!Number.isFinite(maxDelayMs) || maxDelayMs < 0) {
+      throw new InvalidOptionsError("maxDelayMs must be a non-negative number");
+    }
+    this.maxBatchSize = maxBatchSize;
+    this.maxDelayMs = maxDelayMs;
+  }
+
+  /**
+   * Adds an item to the open batch, opening a new one if needed.
+   *
+   * @param {I} item - The item, e.g. an id to fetch.
+   * @returns {Promise<V>} A promise that resolves with the result of the item.
+   *
+   * @throws {BatchResultError} When the batch function does not return one result per item.
+   * @throws Any error of the batch call or of `ApiRateLimiter.addRequest`, mapped by `mapError`.
+   */
+  public add(item: I): Promise<V> {
+    const batch = this.open ?? this.openBatch();
+    return new Promise<V>((resolve, reject) => {
+      batch.items.push(item);
+      batch.callers.push({ resolve, reject });
+      if (batch.items.length >= this.maxBatchSize) {
+        this.open = null;
+        this.submit(batch);
+      } else if (this.maxDelayMs === 0) {
+        this.submit(batch);
+      }
+    });
+  }
+
+  /**
+   * Queues the open batch right away instead of waiting for `maxDelayMs`.
+   */
+  public flush(): void {
+    if (this.open) {
+      this.submit(this.open);
+    }
+  }
+
+  /**
+   * Opens a new batch, to be queued once `maxDelayMs` has passed on the limiter's clock, or right away without a delay.
+   */
+  private openBatch(): Batch<I, V> {
+    const batch: Batch<I, V> = {
+      items: [],
+      callers: [],
+      timer: null,
+      submitted: false,
+    };
+    this.open = batch;
+    if (this.maxDelayMs > 0) {
+      batch.timer = this.limiter.clock.setTimeout(
+        () => this.submit(batch),
+        this.maxDelayMs
+      );
+    }
+    return batch;
+  }
+
+  /**
+   * Queues a batch in the limiter and fans the results out to its callers.
+   * The batch stays open for more items until its call starts.
+   */
+  private submit(batch: Batch<I, V>): void {
+    if (batch.timer !== null) {
+      this.limiter.clock.clearTimeout(batch.timer);
+      batch.timer = null;
+    }
+    if (batch.submitted) {
+      return;
+    }
+    batch.submitted = true;
+
+    this.limiter
+      .addRequest(
+        () => {
+          this.close(batch);
+          return this.options.batch([...batch.items]);
+        },
+        { lane: this.options.lane, cost: this.options.cost }
+      )
+      .then(
+        (results: (V | Error)[]) => {
+          this.close(batch);
+          if (
+            !Array.isArray(results) ||
+            results.length !== batch.items.length
+          ) {
+            const error = new BatchResultError(
+              batch.items.length,
+              Array.isArray(results) ? results.length : 0
+            );
+            batch.callers.forEach(({ reject }) => reject(error));
+            return;
+          }
+          results.forEach((result, index) => {
+            const { resolve, reject } = batch.callers[index];
+            if (result instanceof Error) {
+              reject(result);
+            } else {
+              resolve(result);
+            }
+          });
+        },
+        (error) => {
+          this.close(batch);
+          const { mapError } = this.options;
+          batch.callers.forEach(({ reject }, index) =>
+            reject(mapError ? mapError(error, batch.items[index]) : error)
+          );
+        }
+      );
+  }
+
+  /**
+   * Stops adding items to a batch, so that a batch the limiter rejected before its call started
+   * does not swallow the items that come after it.
+   */
+  private close(batch: Batch<I, V>): void {
+    if (this.open === batch) {
+      this.open = null;
+    }
+  }
+}
+
+export default RequestBatcher;
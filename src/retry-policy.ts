@@ -0,0 +1,64 @@
+import { InvalidOptionsError } from "./errors";
+import { RetryOptions } from "./type";
+
+/**
+ * Fills in the defaults of a retry policy and validates it.
+ *
+ * @param {RetryOptions} options - The configured policy.
+ * @returns {Required<RetryOptions>} The complete policy.
+ *
+ * @throws {InvalidOptionsError} If a value is out of range.
+ */
+function resolveRetryPolicy(options: RetryOptions): Required<RetryOptions> {
+  const {
+    maxAttempts = 3,
+    baseDelayMs = 100,
+    maxDelayMs = 10000,
+    jitter = "full",
+    retryable = () => true,
+  } = options;
+
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new InvalidOptionsError("maxAttempts must be a positive integer");
+  }
+  if (!(baseDelayMs >= 0) || !(maxDelayMs >= baseDelayMs)) {
+    throw new InvalidOptionsError(
+      "retry delays must satisfy 0 <= baseDelayMs <= maxDelayMs"
+    );
+  }
+  if (!["full", "equal", "none"].includes(jitter)) {
+    throw new InvalidOptionsError(`unknown jitter "${jitter}"`);
+  }
+
+  return { maxAttempts, baseDelayMs, maxDelayMs, jitter, retryable };
+}
+
+/**
+ * Computes the backoff before retrying after a failed attempt:
+ * `baseDelayMs * 2^(attempt - 1)`, capped at `maxDelayMs` and randomized according to `jitter`.
+ *
+ * @param {Required<RetryOptions>} policy - The retry policy.
+ * @param {number} attempt - Number of the failed attempt, starting at 1.
+ * @param {() => number} [random=Math.random] - Source of randomness in [0, 1).
+ * @returns {number} The delay in milliseconds.
+ */
+function backoffDelay(
+  policy: Required<RetryOptions>,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const backoff = Math.min(
+    policy.baseDelayMs * 2 ** (attempt - 1),
+    policy.maxDelayMs
+  );
+  switch (policy.jitter) {
+    case "full":
+      return Math.floor(random() * backoff);
+    case "equal":
+      return Math.floor(backoff / 2 + (random() * backoff) / 2);
+    default:
+      return backoff;
+  }
+}
+
+export { resolveRetryPolicy, backoffDelay };
@@ -0,0 +1,314 @@
+/**
+ * @fileoverview Virtual-time simulator of the API Rate Limiter
+ * Replays an arrival trace through a limiter configuration on a virtual clock and reports
+ * when requests were admitted, how deep the queue got, how long requests waited
+ * and where the configured limits were exceeded
+ */
+
+import ApiRateLimiter from "./api-rate-limiter";
+import { VirtualClock } from "./clock";
+import { InvalidOptionsError } from "./errors";
+import { ApiRateLimiterOptions, Clock, RateLimitWindow } from "./type";
+
+/**
+ * A request arriving at the limiter during a simulation
+ * @interface Arrival
+ */
+export interface Arrival {
+  /** Time of arrival in milliseconds since the start of the simulation */
+  at: number;
+  /** Lane the request is queued in (default: the limiter's default lane) */
+  lane?: string;
+  /** Number of tokens the request takes (default: 1) */
+  cost?: number;
+  /** Execution time of the request in milliseconds (default: the simulation's `durationMs`) */
+  durationMs?: number;
+}
+
+/**
+ * Options of a simulation
+ * @interface SimulationOptions
+ */
+export interface SimulationOptions {
+  /** Configuration of the limiter under test; the simulation provides the clock */
+  limiter: Omit<ApiRateLimiterOptions, "clock">;
+  /** The trace to replay, as arrivals or arrival times, e.g. recorded from production or generated by `poissonArrivals` */
+  arrivals: (Arrival | number)[];
+  /** Execution time of requests without their own `durationMs`, in milliseconds (default: 0) */
+  durationMs?: number;
+  /** Epoch timestamp in milliseconds the simulation starts at, which aligns fixed windows (default: 0) */
+  startAt?: number;
+  /**
+   * Rounds every timer of the limiter up to a multiple of this interval in milliseconds, emulating a loop
+   * that polls the queue at a fixed interval, e.g. to compare with the one-second tick of earlier releases (default: exact timers)
+   */
+  tickIntervalMs?: number;
+}
+
+/**
+ * What happened to one request of a simulation; times are in milliseconds since its start
+ * @interface SimulatedRequest
+ */
+export interface SimulatedRequest {
+  /** Time the request arrived */
+  arrivedAt: number;
+  /** Time the request was admitted, or `null` if it never was */
+  admittedAt: number | null;
+  /** Time the request waited in the queue, or `null` if it was never admitted */
+  waitMs: number | null;
+  /** Name of the error the request rejected with, e.g. "QueueFullError", or `null` */
+  error: string | null;
+}
+
+/**
+ * Distribution of the queue wait times of admitted requests, in milliseconds
+ * @interface WaitTimeSummary
+ */
+export interface WaitTimeSummary {
+  mean: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+/**
+ * An interval in which more tokens were admitted than a configured window allows
+ * @interface LimitViolation
+ */
+export interface LimitViolation {
+  /** Duration of the exceeded window */
+  durationMs: number;
+  /** Configured limit of the window */
+  limit: number;
+  /** Time of the first admission of the overloaded interval */
+  from: number;
+  /** Time of the last admission of the overloaded interval */
+  to: number;
+  /** Most tokens admitted within any `durationMs` of the interval */
+  admitted: number;
+}
+
+/**
+ * Outcome of a simulation
+ * @interface SimulationReport
+ */
+export interface SimulationReport {
+  /** Every request of the trace, in arrival order */
+  requests: SimulatedRequest[];
+  /** Number of admitted requests */
+  admitted: number;
+  /** Number of requests that rejected without being admitted */
+  rejected: number;
+  /** Largest number of requests waiting in the queue at once */
+  maxQueueDepth: number;
+  /** Queue wait times of the admitted requests */
+  waitMs: WaitTimeSummary;
+  /**
+   * Intervals in which a window admitted more than its limit, judged as a strict sliding window would,
+   * i.e. as an upstream counting every request of the last `durationMs` sees it.
+   * Token buckets and fixed windows may show bursts here that they allow by design.
+   */
+  violations: LimitViolation[];
+  /** Time the last request settled, in milliseconds since the start */
+  endedAt: number;
+}
+
+/**
+ * Returns the value at a percentile of sorted values, by the nearest-rank method.
+ */
+const percentile = (sorted: number[], p: number): number =>
+  sorted.length === 0
+    ? 0
+    : sorted[Math.max(Math.ceil((p / 100) * sorted.length) - 1, 0)];
+
+/**
+ * Summarizes wait times.
+ */
+const summarize = (waits: number[]): WaitTimeSummary => {
+  const sorted = [...waits].sort((a, b) => a - b);
+  return {
+    mean:
+      sorted.length === 0
+        ? 0
+        : sorted.reduce((sum, wait) => sum + wait, 0) / sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    max: sorted.length === 0 ? 0 : sorted[sorted.length - 1],
+  };
+};
+
+/**
+ * Finds the intervals in which admissions exceeded a window, merging overlapping ones.
+ *
+ * @param {{ at: number; cost: number }[]} admissions - Admissions ordered by time.
+ * @param {RateLimitWindow} window - The configured window.
+ * @returns {LimitViolation[]} The violations of the window.
+ */
+const findViolations = (
+  admissions: { at: number; cost: number }[],
+  window: RateLimitWindow
+): LimitViolation[] => {
+  const violations: LimitViolation[] = [];
+  let start = 0;
+  let admitted = 0;
+  admissions.forEach(({ at, cost }) => {
+    admitted += cost;
+    while (admissions[start].at <= at - window.durationMs) {
+      admitted -= admissions[start].cost;
+      start++;
+    }
+    if (admitted <= window.limit) {
+      return;
+    }
+    const last = violations[violations.length - 1];
+    const from = admissions[start].at;
+    if (last && from <= last.to) {
+      last.to = at;
+      last.admitted = Math.max(last.admitted, admitted);
+    } else {
+      violations.push({ ...window, from, to: at, admitted });
+    }
+  });
+  return violations;
+};
+
+/**
+ * Generates a synthetic trace of arrivals at a constant average rate with random, exponentially
+ * distributed gaps. The same seed always generates the same trace.
+ *
+ * @param {number} ratePerSecond - Average number of arrivals per second.
+ * @param {number} durationMs - Length of the trace in milliseconds.
+ * @param {number} [seed=1] - Seed of the pseudo-random generator.
+ * @returns {number[]} Arrival times in milliseconds since the start, in ascending order.
+ *
+ * @throws {InvalidOptionsError} If the rate or the duration is not a positive number.
+ */
+function poissonArrivals(
+  ratePerSecond: number,
+  durationMs: number,
+  seed = 1
+): number[] {
+  if (!(ratePerSecond > 0) || !Number.isFinite(ratePerSecond)) {
+    throw new InvalidOptionsError("ratePerSecond must be a positive number");
+  }
+  if (!(durationMs > 0) || !Number.isFinite(durationMs)) {
+    throw new InvalidOptionsError("durationMs must be a positive number");
+  }
+  // mulberry32
+  let state = seed >>> 0;
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const arrivals: number[] = [];
+  let at = 0;
+  for (;;) {
+    at += (-Math.log(1 - random()) / ratePerSecond) * 1000;
+    if (at >= durationMs) {
+      return arrivals;
+    }
+    arrivals.push(Math.round(at));
+  }
+}
+
+/**
+ * Replays a trace through a new limiter running on a virtual clock, so hours of traffic
+ * are simulated in moments and the same trace always produces the same report.
+ * Requests never fail; each one takes its `durationMs` once admitted.
+ *
+ * @param {SimulationOptions} options - Limiter configuration, trace and request durations.
+ * @returns {Promise<SimulationReport>} Admission timings, queue depth, wait times and limit violations.
+ *
+ * @throws {InvalidOptionsError} If the limiter configuration or `tickIntervalMs` is invalid.
+ */
+async function simulate(options: SimulationOptions): Promise<SimulationReport> {
+  const { durationMs = 0, startAt = 0, tickIntervalMs } = options;
+  if (
+    tickIntervalMs !== undefined &&
+    !(tickIntervalMs > 0 && Number.isFinite(tickIntervalMs))
+  ) {
+    throw new InvalidOptionsError("tickIntervalMs must be a positive number");
+  }
+  const clock = new VirtualClock(startAt);
+  const limiterClock: Clock =
+    tickIntervalMs === undefined
+      ? clock
+      : {
+          now: () => clock.now(),
+          setTimeout: (callback, delayMs) =>
+            clock.setTimeout(
+              callback,
+              Math.ceil(delayMs / tickIntervalMs) * tickIntervalMs
+            ),
+          clearTimeout: (handle) => clock.clearTimeout(handle),
+        };
+  const limiter = new ApiRateLimiter<void>(
+    { ...options.limiter, clock: limiterClock },
+    () => undefined
+  );
+  const { windows } = await limiter.getStatus();
+
+  let maxQueueDepth = 0;
+  limiter.on("enqueued", ({ queueSize }) => {
+    maxQueueDepth = Math.max(maxQueueDepth, queueSize);
+  });
+
+  const arrivals = options.arrivals
+    .map((arrival) => (typeof arrival === "number" ? { at: arrival } : arrival))
+    .sort((a, b) => a.at - b.at);
+  const requests: SimulatedRequest[] = arrivals.map(({ at }) => ({
+    arrivedAt: at,
+    admittedAt: null,
+    waitMs: null,
+    error: null,
+  }));
+  const admissions: { at: number; cost: number }[] = [];
+
+  arrivals.forEach((arrival, index) => {
+    const request = requests[index];
+    clock.setTimeout(() => {
+      limiter
+        .addRequest(
+          () => {
+            request.admittedAt = clock.now() - startAt;
+            request.waitMs = request.admittedAt - request.arrivedAt;
+            admissions.push({
+              at: request.admittedAt,
+              cost: arrival.cost ?? 1,
+            });
+            return new Promise<void>((resolve) =>
+              clock.setTimeout(resolve, arrival.durationMs ?? durationMs)
+            );
+          },
+          { lane: arrival.lane, cost: arrival.cost }
+        )
+        .catch((error) => {
+          request.error = error instanceof Error ? error.name : String(error);
+        });
+    }, arrival.at);
+  });
+
+  const endedAt = (await clock.runUntil()) - startAt;
+  await limiter.shutdown();
+
+  const admitted = requests.filter(({ admittedAt }) => admittedAt !== null);
+  return {
+    requests,
+    admitted: admitted.length,
+    rejected: requests.length - admitted.length,
+    maxQueueDepth,
+    waitMs: summarize(admitted.map(({ waitMs }) => waitMs!)),
+    violations: windows.flatMap(({ durationMs, limit }) =>
+      findViolations(admissions, { durationMs, limit })
+    ),
+    endedAt,
+  };
+}
+
+export { simulate, poissonArrivals };
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview File persistence of the API Rate Limiter state
+ * Saves snapshots from `exportState` to a JSON file and restores them after a restart,
+ * optionally saving periodically in the background
+ */
+
+import { promises as fs } from "fs";
+import type ApiRateLimiter from "./api-rate-limiter";
+import { InvalidOptionsError } from "./errors";
+
+/**
+ * Options of `autoSaveState`
+ * @interface AutoSaveOptions
+ */
+export interface AutoSaveOptions {
+  /** Time in milliseconds between two saves (default: 5000) */
+  intervalMs?: number;
+  /** Handles errors of background saves (default: console.error) */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * A running background save, returned by `autoSaveState`
+ * @interface AutoSaveHandle
+ */
+export interface AutoSaveHandle {
+  /** Stops saving periodically and saves one last time */
+  stop(): Promise<void>;
+}
+
+/**
+ * Saves the state of a limiter to a JSON file.
+ * The file is replaced atomically by renaming a temporary file, so a crash never leaves it half written.
+ *
+ * @param {ApiRateLimiter<any>} limiter - The limiter to save.
+ * @param {string} path - Path of the JSON file.
+ */
+async function saveState(
+  limiter: ApiRateLimiter<any>,
+  path: string
+): Promise<void> {
+  const snapshot = await limiter.exportState();
+  const temporaryPath = `${path}.${process.pid}.tmp`;
+  await fs.writeFile(temporaryPath, JSON.stringify(snapshot));
+  await fs.rename(temporaryPath, path);
+}
+
+/**
+ * Restores the state of a limiter from a JSON file written by `saveState`.
+ *
+ * @param {ApiRateLimiter<any>} limiter - The limiter to restore.
+ * @param {string} path - Path of the JSON file.
+ * @returns {Promise<boolean>} `true` if a state was restored, `false` if the file does not exist.
+ *
+ * @throws {InvalidStateError} If the saved state has an unsupported version or belongs to another strategy.
+ */
+async function loadState(
+  limiter: ApiRateLimiter<any>,
+  path: string
+): Promise<boolean> {
+  let content: string;
+  try {
+    content = await fs.readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return false;
+    }
+    throw error;
+  }
+  await limiter.importState(JSON.parse(content));
+  return true;
+}
+
+/**
+ * Saves the state of a limiter to a JSON file every `intervalMs` until stopped.
+ * The timer does not keep the process alive.
+ *
+ * @param {ApiRateLimiter<any>} limiter - The limiter to save.
+ * @param {string} path - Path of the JSON file.
+ * @param {AutoSaveOptions} [options] - Interval and error handling options.
+ * @returns {AutoSaveHandle} A handle to stop saving.
+ *
+ * @throws {InvalidOptionsError} If `intervalMs` is not positive.
+ */
+function autoSaveState(
+  limiter: ApiRateLimiter<any>,
+  path: string,
+  options: AutoSaveOptions = {}
+): AutoSaveHandle {
+  const { intervalMs = 5000, onError = console.error } = options;
+  if (!(intervalMs > 0) || !Number.isFinite(intervalMs)) {
+    throw new InvalidOptionsError("intervalMs must be a positive number");
+  }
+
+  let saving: Promise<void> = Promise.resolve();
+  const save = () => {
+    saving = saving.catch(() => undefined).then(() => saveState(limiter, path));
+    return saving;
+  };
+  const timer = setInterval(() => {
+    save().catch(onError);
+  }, intervalMs);
+  timer.unref?.();
+
+  return {
+    stop: () => {
+      clearInterval(timer);
+      return save();
+    },
+  };
+}
+
+export { saveState, loadState, autoSaveState };
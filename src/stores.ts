@@ -0,0 +1,272 @@
+/**
+ * @fileoverview Storage backends for the token state of the API Rate Limiter
+ * Stores provide atomic read-modify-write updates so that several limiters can share one quota
+ */
+
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import AsyncLock from "./async-lock";
+import { StoreContentionError } from "./errors";
+import { LimiterState, RateLimitStore, StoreUpdate } from "./type";
+
+/**
+ * In-memory store.
+ * Shares state between limiters of the same process only; this is the default store of a limiter.
+ */
+class MemoryStore implements RateLimitStore {
+  private states = new Map<string, LimiterState>();
+
+  async update<R>(
+    key: string,
+    mutate: (state: LimiterState | undefined) => StoreUpdate<R>
+  ): Promise<R> {
+    const { state, result } = mutate(this.states.get(key));
+    this.states.set(key, state);
+    return result;
+  }
+}
+
+/**
+ * Options of a FileStore
+ * @interface FileStoreOptions
+ */
+export interface FileStoreOptions {
+  /** Maximum time in milliseconds to wait for the lock file (default: 5000) */
+  lockTimeoutMs?: number;
+  /** Age in milliseconds after which a lock file left by a crashed process is removed (default: 10000) */
+  staleLockMs?: number;
+  /** Delay in milliseconds between two attempts to take the lock file (default: 5) */
+  retryDelayMs?: number;
+}
+
+/**
+ * JSON file store shared by every process on a single host.
+ * Updates are serialized with an exclusive lock file next to the state file,
+ * and the state file is replaced atomically by renaming a temporary file.
+ * The lock file holds a token unique to the update, so that a process only ever removes its own lock.
+ */
+class FileStore implements RateLimitStore {
+  private lockPath: string;
+  private processLock = new AsyncLock();
+  private lockTimeoutMs: number;
+  private staleLockMs: number;
+  private retryDelayMs: number;
+
+  /**
+   * Creates an instance of FileStore.
+   * @param {string} path - Path of the JSON state file. It is created on the first update.
+   * @param {FileStoreOptions} [options] - Lock tuning options.
+   */
+  constructor(private path: string, options: FileStoreOptions = {}) {
+    this.lockPath = `${path}.lock`;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5000;
+    this.staleLockMs = options.staleLockMs ?? 10000;
+    this.retryDelayMs = options.retryDelayMs ?? 5;
+  }
+
+  /**
+   * @throws {StoreContentionError} When the lock file cannot be acquired within `lockTimeoutMs`.
+   */
+  async update<R>(
+    key: string,
+    mutate: (state: LimiterState | undefined) => StoreUpdate<R>
+  ): Promise<R> {
+    const release = await this.processLock.acquire();
+    try {
+      const token = await this.lockFile(key);
+      try {
+        const states = await this.read();
+        const { state, result } = mutate(states[key]);
+        states[key] = state;
+        await this.write(states);
+        return result;
+      } finally {
+        await this.unlockFile(token);
+      }
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Creates the lock file exclusively, retrying until it is free or `lockTimeoutMs` has passed.
+   * A lock file older than `staleLockMs` is assumed to be left by a crashed process and removed.
+   *
+   * @returns {Promise<string>} The token written to the lock file.
+   */
+  private async lockFile(key: string): Promise<string> {
+    const token = `${process.pid}.${randomUUID()}`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+    for (;;) {
+      try {
+        const handle = await fs.open(this.lockPath, "wx");
+        try {
+          await handle.writeFile(token);
+        } finally {
+          await handle.close();
+        }
+        return token;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+      }
+
+      const lockStat = await fs.stat(this.lockPath).catch(() => null);
+      if (lockStat && this.isStale(lockStat.mtimeMs)) {
+        await this.removeStaleLock(token);
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new StoreContentionError(key);
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.retryDelayMs));
+    }
+  }
+
+  /**
+   * Removes the lock file unless another process has taken it over since, e.g. after `staleLockMs`.
+   */
+  private async unlockFile(token: string): Promise<void> {
+    const owner = await fs.readFile(this.lockPath, "utf8").catch(() => null);
+    if (owner === token) {
+      await fs.rm(this.lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Removes a stale lock file by renaming it to a name unique to the update first, so that of several
+   * processes taking it over at once only one gets it. A lock that turns out to be fresh, because another
+   * process took over and locked in the meantime, is put back.
+   */
+  private async removeStaleLock(token: string): Promise<void> {
+    const stalePath = `${this.lockPath}.${token}.stale`;
+    try {
+      await fs.rename(this.lockPath, stalePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+    const { mtimeMs } = await fs.stat(stalePath);
+    if (!this.isStale(mtimeMs)) {
+      await fs.link(stalePath, this.lockPath).catch(() => undefined);
+    }
+    await fs.rm(stalePath, { force: true });
+  }
+
+  /**
+   * Whether a lock file last modified at `mtimeMs` is older than `staleLockMs`.
+   */
+  private isStale(mtimeMs: number): boolean {
+    return Date.now() - mtimeMs > this.staleLockMs;
+  }
+
+  private async read(): Promise<Record<string, LimiterState>> {
+    try {
+      return JSON.parse(await fs.readFile(this.path, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async write(states: Record<string, LimiterState>): Promise<void> {
+    const temporaryPath = `${this.path}.${process.pid}.tmp`;
+    await fs.writeFile(temporaryPath, JSON.stringify(states));
+    await fs.rename(temporaryPath, this.path);
+  }
+}
+
+/**
+ * The subset of a Redis client used by RedisStore.
+ * Adapt ioredis, node-redis or any other client with a thin wrapper.
+ * @interface RedisClientLike
+ */
+export interface RedisClientLike {
+  /** Returns the string value of `key`, or `null` when it does not exist */
+  get(key: string): Promise<string | null>;
+  /** Runs a Lua script, as `EVAL script keys.length ...keys ...args` */
+  eval(script: string, keys: string[], args: string[]): Promise<unknown>;
+}
+
+/**
+ * Options of a RedisStore
+ * @interface RedisStoreOptions
+ */
+export interface RedisStoreOptions {
+  /** Prefix prepended to every key (default: "api-rate-limiter:") */
+  prefix?: string;
+  /** Maximum number of attempts when concurrent updates conflict (default: 10) */
+  maxAttempts?: number;
+}
+
+/**
+ * Lua script that stores ARGV[2] under KEYS[1] only if the current value still equals ARGV[1]
+ * (an empty string standing for a missing key), expiring it after ARGV[3] milliseconds when positive.
+ */
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if (current or "") ~= ARGV[1] then
+  return 0
+end
+if tonumber(ARGV[3]) > 0 then
+  redis.call("SET", KEYS[1], ARGV[2], "PX", ARGV[3])
+else
+  redis.call("SET", KEYS[1], ARGV[2])
+end
+return 1
+`;
+
+/**
+ * Redis store shared by every process connected to the same Redis server.
+ * Updates use optimistic concurrency: the state is read, mutated locally and written back with
+ * a compare-and-set script, retrying when another process updated the key in the meantime.
+ */
+class RedisStore implements RateLimitStore {
+  private prefix: string;
+  private maxAttempts: number;
+
+  /**
+   * Creates an instance of RedisStore.
+   * @param {RedisClientLike} client - The Redis client to use.
+   * @param {RedisStoreOptions} [options] - Key prefix and retry options.
+   */
+  constructor(
+    private client: RedisClientLike,
+    options: RedisStoreOptions = {}
+  ) {
+    this.prefix = options.prefix ?? "api-rate-limiter:";
+    this.maxAttempts = options.maxAttempts ?? 10;
+  }
+
+  /**
+   * @throws {StoreContentionError} When every attempt conflicted with a concurrent update.
+   */
+  async update<R>(
+    key: string,
+    mutate: (state: LimiterState | undefined) => StoreUpdate<R>
+  ): Promise<R> {
+    const redisKey = `${this.prefix}${key}`;
+    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+      const current = await this.client.get(redisKey);
+      const { state, result, ttlMs } = mutate(
+        current === null ? undefined : JSON.parse(current)
+      );
+      const applied = await this.client.eval(
+        COMPARE_AND_SET_SCRIPT,
+        [redisKey],
+        [current ?? "", JSON.stringify(state), String(Math.ceil(ttlMs ?? 0))]
+      );
+      if (Number(applied) === 1) {
+        return result;
+      }
+    }
+    throw new StoreContentionError(key);
+  }
+}
+
+export { MemoryStore, FileStore, RedisStore, COMPARE_AND_SET_SCRIPT };
@@ -0,0 +1,482 @@
+/**
+ * @fileoverview Built-in limiting algorithms for the API Rate Limiter
+ * Each strategy decides whether a window admits a request and how long a caller has to wait otherwise
+ */
+
+import { InvalidOptionsError } from "./errors";
+import {
+  LimitingStrategy,
+  LimitingStrategyName,
+  RateLimitWindow,
+} from "./type";
+
+/** State of a token bucket window */
+interface TokenBucketState {
+  tokens: number;
+  lastRefill: number;
+}
+
+/**
+ * Token bucket with continuous refill.
+ * The bucket holds up to `limit` tokens and regains `limit` tokens per `durationMs`, spread evenly over time.
+ */
+class TokenBucketStrategy implements LimitingStrategy<TokenBucketState> {
+  readonly name = "token-bucket";
+
+  createState(window: RateLimitWindow, now: number): TokenBucketState {
+    return { tokens: window.limit, lastRefill: now };
+  }
+
+  available(
+    state: TokenBucketState,
+    window: RateLimitWindow,
+    now: number
+  ): number {
+    this.refill(state, window, now);
+    return Math.max(Math.floor(state.tokens), 0);
+  }
+
+  consume(
+    state: TokenBucketState,
+    window: RateLimitWindow,
+    cost: number,
+    now: number
+  ): void {
+    this.refill(state, window, now);
+    state.tokens = Math.min(state.tokens - cost, window.limit);
+  }
+
+  waitTime(
+    state: TokenBucketState,
+    window: RateLimitWindow,
+    cost: number,
+    now: number
+  ): number {
+    this.refill(state, window, now);
+    if (state.tokens >= cost) {
+      return 0;
+    }
+    return Math.ceil(
+      ((cost - state.tokens) * window.durationMs) / window.limit
+    );
+  }
+
+  rescale(
+    state: TokenBucketState,
+    from: RateLimitWindow,
+    to: RateLimitWindow,
+    now: number
+  ): void {
+    this.refill(state, from, now);
+    state.tokens = (state.tokens * to.limit) / from.limit;
+  }
+
+  /**
+   * Adds the tokens earned since the last refill, capped at the window limit.
+   */
+  private refill(
+    state: TokenBucketState,
+    window: RateLimitWindow,
+    now: number
+  ): void {
+    const elapsed = Math.max(now - state.lastRefill, 0);
+    state.tokens = Math.min(
+      state.tokens + (elapsed / window.durationMs) * window.limit,
+      window.limit
+    );
+    state.lastRefill = now;
+  }
+}
+
+/** State of a fixed window */
+interface FixedWindowState {
+  windowStart: number;
+  count: number;
+}
+
+/**
+ * Fixed window counter.
+ * Windows are aligned to multiples of `durationMs` since the epoch and the count resets at every boundary,
+ * which allows bursts of up to twice the limit around a boundary.
+ */
+class FixedWindowStrategy implements LimitingStrategy<FixedWindowState> {
+  readonly name = "fixed-window";
+
+  createState(window: RateLimitWindow, now: number): FixedWindowState {
+    return { windowStart: this.windowStart(window, now), count: 0 };
+  }
+
+  available(
+    state: FixedWindowState,
+    window: RateLimitWindow,
+    now: number
+  ): number {
+    this.roll(state, window, now);
+    return Math.max(Math.floor(window.limit - state.count), 0);
+  }
+
+  consume(
+    state: FixedWindowState,
+    window: RateLimitWindow,
+    cost: number,
+    now: number
+  ): void {
+    this.roll(state, window, now);
+    state.count = Math.max(state.count + cost, 0);
+  }
+
+  waitTime(
+    state: FixedWindowState,
+    window: RateLimitWindow,
+    cost: number,
+    now: number
+  ): number {
+    this.roll(state, window, now);
+    if (state.count + cost <= window.limit) {
+      return 0;
+    }
+    return state.windowStart + window.durationMs - now;
+  }
+
+  rescale(
+    state: FixedWindowState,
+    from: RateLimitWindow,
+    to: RateLimitWindow,
+    now: number
+  ): void {
+    this.roll(state, from, now);
+    state.count = (state.count * to.limit) / from.limit;
+  }
+
+  /**
+   * Starts a new window when `now` has passed the end of the current one.
+   */
+  private roll(
+    state: FixedWindowState,
+    window: RateLimitWindow,
+    now: number
+  ): void {
+    const windowStart = this.windowStart(window, now);
+    if (windowStart > state.windowStart) {
+      state.windowStart = windowStart;
+      state.count = 0;
+    }
+  }
+
+  private windowStart(window: RateLimitWindow, now: number): number {
+    return Math.floor(now / window.durationMs) * window.durationMs;
+  }
+}
+
+/** State of a sliding window log: the admissions with their cost, oldest first */
+interface SlidingWindowLogState {
+  log: { at: number; cost: number }[];
+}
+
+/**
+ * Sliding window log.
+ * Remembers the admission time and cost of every request and admits a new one only while the costs
+ * admitted during the preceding `durationMs` leave room for it. Exact, at the cost of memory per request.
+ * A changed limit is not rescaled: the log keeps the actual admissions and counts them against the new limit.
+ */
+class SlidingWindowLogStrategy
+  implements LimitingStrategy<SlidingWindowLogState>
+{
+  readonly name = "sliding-window-log";
+
+  createState(): SlidingWindowLogState {
+    return { log: [] };
+  }
+
+  available(
+    state: SlidingWindowLogState,
+    window: RateLimitWindow,
+    now: number
+  ): number {
+    this.prune(state, window, now);
+    return Math.max(Math.floor(window.limit - this.used(state)), 0);
+  }
+
+  consume(
+    state: SlidingWindowLogState,
+    window: RateLimitWindow,
+    cost: number,
+    now: number
+  ): void {
+    this.prune(state, window, now);
+    if (cost > 0) {
+      state.log.push({ at: now, cost });
+    }
+    // A refund forgets the most recent admissions.
+    let refund = -cost;
+    while (refund > 0 && state.log.length > 0) {
+      const last = state.log[state.log.length - 1];
+      const taken = Math.min(last.cost, refund);
+      last.cost -= taken;
+      refund -= taken;
+      if (last.cost === 0) {
+        state.log.pop();
+      }
+    }
+  }
+
+  waitTime(
+    state: SlidingWindowLogState,
+    window: RateLimitWindow,
+    cost: number,
+    now: number
+  ): number {
+    this.prune(state, window, now);
+    let excess = this.used(state) + cost - window.limit;
+    if (excess <= 0) {
+      return 0;
+    }
+    // Waits until the oldest admissions that free enough room have left the window.
+    for (const { at, cost: admitted } of state.log) {
+      excess -= admitted;
+      if (excess <= 0) {
+        return at + window.durationMs - now;
+      }
+    }
+    return window.durationMs;
+  }
+
+  /**
+   * Sums the costs admitted within the window.
+   */
+  private used(state: SlidingWindowLogState): number {
+    return state.log.reduce((sum, { cost }) => sum + cost, 0);
+  }
+
+  /**
+   * Drops the admissions that have left the window.
+   */
+  private prune(
+    state: SlidingWindowLogState,
+    window: RateLimitWindow,
+    now: number
+  ): void {
+    const threshold = now - window.durationMs;
+    let expired = 0;
+    while (expired < state.log.length && state.log[expired].at <= threshold) {
+      expired++;
+    }
+    if (expired > 0) {
+      state.log.splice(0, expired);
+    }
+  }
+}
+
+/** State of a sliding window counter */
+interface SlidingWindowCounterState {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+/**
+ * Sliding window counter.
+ * Approximates a sliding window by weighting the count of the previous fixed window
+ * with the fraction of it that still overlaps the sliding window.
+ */
+class SlidingWindowCounterStrategy
+  implements LimitingStrategy<SlidingWindowCounterState>
+{
+  readonly name = "sliding-window-counter";
+
+  createState(window: RateLimitWindow, now: number): SlidingWindowCounterState {
+    return {
+      windowStart: this.windowStart(window, now),
+      current: 0,
+      previous: 0,
+    };
+  }
+
+  available(
+    state: SlidingWindowCounterState,
+    window: RateLimitWindow,
+    now: number
+  ): number {
+    this.roll(state, window, now);
+    return Math.max(
+      Math.floor(window.limit - this.estimate(state, window, now)),
+      0
+    );
+  }
+
+  consume(
+    state: SlidingWindowCounterState,
+    window: RateLimitWindow,
+    cost: number,
+    now: number
+  ): void {
+    this.roll(state, window, now);
+    state.current = Math.max(state.current + cost, 0);
+  }
+
+  waitTime(
+    state: SlidingWindowCounterState,
+    window: RateLimitWindow,
+    cost: number,
+    now: number
+  ): number {
+    this.roll(state, window, now);
+    if (this.estimate(state, window, now) + cost <= window.limit) {
+      return 0;
+    }
+    const { durationMs, limit } = window;
+    const windowEnd = state.windowStart + durationMs;
+    const room = limit - state.current - cost;
+    if (room >= 0) {
+      // The weight of the previous window decays linearly until the estimate fits.
+      const at = state.windowStart + durationMs * (1 - room / state.previous);
+      return Math.max(Math.ceil(at - now), 0);
+    }
+    // The current window becomes the previous one at its end and decays from there.
+    const nextRoom = limit - cost;
+    const at =
+      state.current <= nextRoom
+        ? windowEnd
+        : windowEnd + durationMs * (1 - nextRoom / state.current);
+    return Math.max(Math.ceil(at - now), 0);
+  }
+
+  rescale(
+    state: SlidingWindowCounterState,
+    from: RateLimitWindow,
+    to: RateLimitWindow,
+    now: number
+  ): void {
+    this.roll(state, from, now);
+    state.current = (state.current * to.limit) / from.limit;
+    state.previous = (state.previous * to.limit) / from.limit;
+  }
+
+  /**
+   * Weighted number of requests in the sliding window ending at `now`.
+   */
+  private estimate(
+    state: SlidingWindowCounterState,
+    window: RateLimitWindow,
+    now: number
+  ): number {
+    const overlap = 1 - (now - state.windowStart) / window.durationMs;
+    return state.previous * overlap + state.current;
+  }
+
+  /**
+   * Moves the counters forward when `now` has passed the end of the current window.
+   */
+  private roll(
+    state: SlidingWindowCounterState,
+    window: RateLimitWindow,
+    now: number
+  ): void {
+    const windowStart = this.windowStart(window, now);
+    if (windowStart === state.windowStart + window.durationMs) {
+      state.previous = state.current;
+      state.current = 0;
+      state.windowStart = windowStart;
+    } else if (windowStart > state.windowStart) {
+      state.previous = 0;
+      state.current = 0;
+      state.windowStart = windowStart;
+    }
+  }
+
+  private windowStart(window: RateLimitWindow, now: number): number {
+    return Math.floor(now / window.durationMs) * window.durationMs;
+  }
+}
+
+/** State of a GCRA window */
+interface GcraState {
+  tat: number;
+}
+
+/**
+ * Generic cell rate algorithm.
+ * Tracks a single theoretical arrival time (TAT) that advances by `durationMs / limit` per request;
+ * a request is admitted while the TAT stays within `durationMs` of `now`.
+ * Equivalent to a token bucket, with constant-size state.
+ * The backlog is measured in time, so a changed limit keeps the used fraction of the window without rescaling.
+ */
+class GcraStrategy implements LimitingStrategy<GcraState> {
+  readonly name = "gcra";
+
+  createState(window: RateLimitWindow, now: number): GcraState {
+    return { tat: now };
+  }
+
+  available(state: GcraState, window: RateLimitWindow, now: number): number {
+    const backlog = Math.max(state.tat - now, 0);
+    return Math.max(
+      Math.floor(
+        ((window.durationMs - backlog) * window.limit) / window.durationMs
+      ),
+      0
+    );
+  }
+
+  consume(
+    state: GcraState,
+    window: RateLimitWindow,
+    cost: number,
+    now: number
+  ): void {
+    state.tat = Math.max(
+      Math.max(state.tat, now) + (cost * window.durationMs) / window.limit,
+      now
+    );
+  }
+
+  waitTime(
+    state: GcraState,
+    window: RateLimitWindow,
+    cost: number,
+    now: number
+  ): number {
+    const tat =
+      Math.max(state.tat, now) + (cost * window.durationMs) / window.limit;
+    return Math.max(Math.ceil(tat - window.durationMs - now), 0);
+  }
+}
+
+/**
+ * Resolves the `strategy` option of the rate limiter.
+ *
+ * @param {LimitingStrategyName | LimitingStrategy} [strategy="token-bucket"] - A built-in strategy name or a custom implementation.
+ * @returns {LimitingStrategy} The strategy to apply to every window.
+ *
+ * @throws {InvalidOptionsError} If the name does not match a built-in strategy.
+ */
+function createStrategy(
+  strategy: LimitingStrategyName | LimitingStrategy = "token-bucket"
+): LimitingStrategy {
+  if (typeof strategy !== "string") {
+    return strategy;
+  }
+  switch (strategy) {
+    case "token-bucket":
+      return new TokenBucketStrategy();
+    case "fixed-window":
+      return new FixedWindowStrategy();
+    case "sliding-window-log":
+      return new SlidingWindowLogStrategy();
+    case "sliding-window-counter":
+      return new SlidingWindowCounterStrategy();
+    case "gcra":
+      return new GcraStrategy();
+    default:
+      throw new InvalidOptionsError(`unknown strategy "${strategy}"`);
+  }
+}
+
+export {
+  TokenBucketStrategy,
+  FixedWindowStrategy,
+  SlidingWindowLogStrategy,
+  SlidingWindowCounterStrategy,
+  GcraStrategy,
+  createStrategy,
+};
@@ -3,15 +3,307 @@
  * Contains interfaces and types used throughout the rate limiting system
  */
 
+import type ApiRateLimiter from "./api-rate-limiter";
+
 /** Function type for API requests that return a promise */
 export type ApiRequest<T> = () => Promise<T>;
 
-/** Tuple type representing a queued request with its resolve and reject handlers */
-export type QueueItem<T> = [
-  ApiRequest<T>,
-  (value: T) => void,
-  (reason: any) => void
-];
+/**
+ * A queued request with its resolve and reject handlers
+ * @interface QueueItem
+ */
+export interface QueueItem<T> {
+  /** The API request to execute once admitted */
+  request: ApiRequest<T>;
+  /** Resolves the promise returned by `addRequest` */
+  resolve: (value: T) => void;
+  /** Rejects the promise returned by `addRequest` */
+  reject: (reason: any) => void;
+  /** Name of the lane the request waits in */
+  lane: string;
+  /** Signal that cancels the request while it waits */
+  signal?: AbortSignal;
+  /** Maximum time in milliseconds the request may wait in the queue, per attempt */
+  maxWaitMs?: number;
+  /** Retry policy of the request, or `null` when failures are not retried */
+  retry: Required<RetryOptions> | null;
+  /** Failed attempts of the request so far */
+  attempts: RetryAttempt[];
+  /** Number of tokens every attempt takes from every window */
+  cost: number;
+  /** Returns the cost actually charged for an attempt */
+  actualCost?: (outcome: RequestOutcome<T>) => number | undefined;
+  /** Translates the outcome of an attempt into upstream feedback, instead of the limiter's `feedback` option */
+  feedback?: (outcome: RequestOutcome<T>) => RateLimitFeedback | undefined;
+  /** Time the current attempt entered the queue, in milliseconds since the epoch */
+  enqueuedAt: number;
+  /** Detaches the abort listener and clears the wait timer of the request, if any */
+  cleanup?: () => void;
+}
+
+/**
+ * A queued request shared by the callers of a dedupe key
+ * @interface SharedRequest
+ */
+export interface SharedRequest<T> {
+  /** Settles with the outcome of the request */
+  promise: Promise<T>;
+  /** Cancels the queued request once every caller has stopped waiting for it */
+  controller: AbortController;
+  /** Number of callers still waiting for the request */
+  callers: number;
+  /** Whether the request has been admitted */
+  started: boolean;
+}
+
+/** Jitter applied to retry delays: a random delay up to the backoff, half of it plus a random half, or none */
+export type RetryJitter = "full" | "equal" | "none";
+
+/**
+ * Retry policy for failed requests
+ * @interface RetryOptions
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Backoff before the first retry in milliseconds, doubled for every further retry (default: 100) */
+  baseDelayMs?: number;
+  /** Upper bound of the backoff in milliseconds (default: 10000) */
+  maxDelayMs?: number;
+  /** Randomization of the backoff (default: "full") */
+  jitter?: RetryJitter;
+  /** Decides whether a failed attempt is retried (default: every error is retried) */
+  retryable?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * A failed attempt of a request
+ * @interface RetryAttempt
+ */
+export interface RetryAttempt {
+  /** Number of the attempt, starting at 1 */
+  attempt: number;
+  /** The error the attempt failed with */
+  error: unknown;
+  /** Timestamp in milliseconds at which the attempt failed */
+  failedAt: number;
+  /** Backoff in milliseconds before the request was queued again, or `null` for the final attempt */
+  delayMs: number | null;
+}
+
+/**
+ * A single rate limit window, e.g. "500 requests per 15 minutes"
+ * @interface RateLimitWindow
+ */
+export interface RateLimitWindow {
+  /** Maximum number of requests allowed within the window */
+  limit: number;
+  /** Length of the window in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * A named lane of the request queue
+ * @interface LaneOptions
+ */
+export interface LaneOptions {
+  /** Name used to address the lane in `addRequest` */
+  name: string;
+  /** Relative share of admissions the lane receives while other lanes are also waiting (default: 1) */
+  weight?: number;
+}
+
+/**
+ * Per-request options accepted by `addRequest`
+ * @interface AddRequestOptions
+ */
+export interface AddRequestOptions<T = any> {
+  /** Name of the lane to queue the request in (default: the `defaultLane` of the limiter) */
+  lane?: string;
+  /** Removes the request from the queue when aborted before it is admitted */
+  signal?: AbortSignal;
+  /** Maximum time in milliseconds the request may wait in the queue before it is rejected, per attempt */
+  maxWaitMs?: number;
+  /** Retry policy overriding the `retry` option of the limiter, or `false` to disable retries */
+  retry?: RetryOptions | false;
+  /**
+   * Number of tokens the request takes from every window, e.g. the points or tokens the upstream charges (default: 1).
+   * May be an estimate that `actualCost` corrects once the request has run.
+   */
+  cost?: number;
+  /** Returns the cost the upstream actually charged for an attempt, or `undefined` to keep `cost` */
+  actualCost?: (outcome: RequestOutcome<T>) => number | undefined;
+  /** Translates the outcome of every attempt into upstream rate limit feedback, overriding the `feedback` option of the limiter */
+  feedback?: (outcome: RequestOutcome<T>) => RateLimitFeedback | undefined;
+  /**
+   * Requests with the same key share one queue slot and one execution while pending, and every caller
+   * receives its outcome. The request runs with the options of the first caller.
+   */
+  dedupeKey?: string;
+  /** Time in milliseconds the result of a keyed request is reused, overriding the `cacheTtlMs` option of the limiter */
+  cacheTtlMs?: number;
+  /** What happens when the queue is full, overriding the `overflow` option of the limiter */
+  overflow?: OverflowPolicy;
+}
+
+/**
+ * Built-in policies for a request that finds the queue full:
+ *  - "reject-new": the new request rejects with a `QueueFullError`.
+ *  - "drop-oldest": the request that has waited longest rejects with a `RequestDroppedError` to make room.
+ *  - "drop-lowest-priority": the most recently queued request of the lowest lane below the new request's lane
+ *    rejects with a `RequestDroppedError`; the new request is rejected when no lane is lower.
+ *  - "wait-for-space": the caller waits until a request leaves the queue, up to `overflowWaitMs`.
+ */
+export type OverflowPolicyName =
+  | "reject-new"
+  | "drop-oldest"
+  | "drop-lowest-priority"
+  | "wait-for-space";
+
+/**
+ * A request that found the queue full, passed to an `OverflowHandler`
+ * @interface QueueOverflow
+ */
+export interface QueueOverflow {
+  /** The request function */
+  request: ApiRequest<any>;
+  /** Name of the lane the request was added to */
+  lane: string;
+  /** Number of tokens the request takes */
+  cost: number;
+  /** Number of requests waiting in the queue */
+  queueSize: number;
+}
+
+/**
+ * Decides what happens to a request that found the queue full: returns a built-in policy to apply,
+ * or a promise the caller receives instead of the queued request, e.g. after spilling it to secondary storage.
+ */
+export type OverflowHandler = (
+  overflow: QueueOverflow
+) => OverflowPolicyName | Promise<any>;
+
+/** What happens to a request that finds the queue full */
+export type OverflowPolicy = OverflowPolicyName | OverflowHandler;
+
+/** Outcome of an executed request, passed to the `feedback` option */
+export type RequestOutcome<T> =
+  | { ok: true; result: T }
+  | { ok: false; error: unknown };
+
+/**
+ * Rate limit signal reported by the upstream API
+ * @interface RateLimitFeedback
+ */
+export interface RateLimitFeedback {
+  /** The upstream rejected the request for exceeding its rate limit (e.g. HTTP 429) */
+  limited?: boolean;
+  /** Time in milliseconds the upstream asked to wait before sending again (e.g. `Retry-After`); implies `limited` */
+  retryAfterMs?: number;
+  /** Requests the upstream still allows until `resetAt` (e.g. `X-RateLimit-Remaining`) */
+  remaining?: number;
+  /** Timestamp in milliseconds at which the upstream quota resets (e.g. `X-RateLimit-Reset`) */
+  resetAt?: number;
+}
+
+/**
+ * Tuning of the AIMD adaptation of the effective limits
+ * @interface AdaptiveOptions
+ */
+export interface AdaptiveOptions {
+  /** Factor applied to the effective limits when the upstream reports a rate limit (default: 0.5) */
+  decreaseFactor?: number;
+  /** Fraction of the configured limits regained after every successful request (default: 0.05) */
+  increaseStep?: number;
+  /** Lowest fraction of the configured limits the effective limits shrink to (default: 0.1) */
+  minScale?: number;
+}
+
+/**
+ * Thresholds of the circuit breaker of a rate limiter
+ * @interface CircuitBreakerOptions
+ */
+export interface CircuitBreakerOptions {
+  /** Number of consecutive failed attempts that opens the circuit (default: 5) */
+  consecutiveFailures?: number;
+  /** Fraction of failed attempts among the last `windowSize` attempts that opens the circuit (default: 0.5) */
+  failureRate?: number;
+  /** Number of recent attempts the failure rate is computed over, judged only once that many were made (default: 20) */
+  windowSize?: number;
+  /** Time in milliseconds the circuit stays open before probe requests are let through (default: 30000) */
+  openMs?: number;
+  /** Number of probe requests admitted at a time while the circuit is half-open (default: 1) */
+  halfOpenProbes?: number;
+  /** Decides whether the error of a failed attempt counts against the upstream (default: every error) */
+  isFailure?: (error: unknown) => boolean;
+}
+
+/**
+ * State of a circuit breaker:
+ *  - "closed": requests flow normally while outcomes are recorded.
+ *  - "open": requests fail fast with a `CircuitOpenError` without taking any tokens.
+ *  - "half-open": a limited number of probe requests is admitted; a success closes the circuit, a failure opens it again.
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * State of the circuit breaker of a rate limiter
+ * @interface CircuitBreakerStatus
+ */
+export interface CircuitBreakerStatus {
+  /** Whether requests flow, fail fast or are probing the upstream */
+  state: CircuitState;
+  /** Number of consecutive failed attempts */
+  consecutiveFailures: number;
+  /** Fraction of failed attempts among the recent attempts, 0 before any was made */
+  failureRate: number;
+  /** Milliseconds left before the open circuit lets probe requests through, 0 unless open */
+  retryInMs: number;
+}
+
+/**
+ * Adaptation state of the rate limiter
+ * @interface AdaptiveStatus
+ */
+export interface AdaptiveStatus {
+  /** Fraction of the configured limits currently in effect */
+  scale: number;
+  /** Milliseconds left before admissions resume after a `Retry-After` */
+  backoffMs: number;
+  /** Requests the upstream still allows before its reset, or `null` when unknown */
+  upstreamRemaining: number | null;
+}
+
+/**
+ * Persistable state of the adaptation to upstream feedback
+ * @interface AdaptiveState
+ */
+export interface AdaptiveState {
+  /** Fraction of the configured limits in effect */
+  scale: number;
+  /** Timestamp in milliseconds until which admissions are paused */
+  backoffUntil: number;
+  /** Quota the upstream reported as remaining until its reset, or `null` when unknown */
+  upstream: { remaining: number; resetAt: number } | null;
+}
+
+/** Handle of a timer scheduled by a `Clock` */
+export type TimerHandle = unknown;
+
+/**
+ * Source of time and timers of a rate limiter.
+ * The default reads `Date.now()` and schedules with the global `setTimeout`;
+ * a `VirtualClock` runs the limiter in simulated time.
+ * @interface Clock
+ */
+export interface Clock {
+  /** Returns the current timestamp in milliseconds */
+  now(): number;
+  /** Calls `callback` once `delayMs` milliseconds have passed and returns a handle to cancel it */
+  setTimeout(callback: () => void, delayMs: number): TimerHandle;
+  /** Cancels a timer that has not fired yet */
+  clearTimeout(handle: TimerHandle): void;
+}
 
 /**
  * Configuration options for initializing the API Rate Limiter
@@ -22,8 +314,234 @@ export interface ApiRateLimiterOptions {
   maxPerSecond?: number;
   /** Maximum number of requests allowed per minute */
   maxPerMinute?: number;
-  /** Maximum size of the request queue */
+  /**
+   * Rate limit windows that are all enforced together.
+   * When provided, `maxPerSecond` and `maxPerMinute` are ignored.
+   */
+  windows?: RateLimitWindow[];
+  /** Algorithm used to admit requests in every window (default: "token-bucket") */
+  strategy?: LimitingStrategyName | LimitingStrategy;
+  /** Maximum size of the request queue, across all lanes */
   maxQueueSize?: number;
+  /** Maximum number of requests executing at the same time, independently of the windows (default: unlimited) */
+  maxConcurrent?: number;
+  /** What happens to a request that finds the queue full (default: "reject-new") */
+  overflow?: OverflowPolicy;
+  /** Maximum time in milliseconds a caller waits for space under the "wait-for-space" policy before it rejects with a `QueueFullError` (default: unlimited) */
+  overflowWaitMs?: number;
+  /**
+   * Lanes of the request queue, ordered from highest to lowest priority.
+   * Waiting lanes share admissions in proportion to their weights, so lower lanes never starve.
+   */
+  lanes?: LaneOptions[];
+  /** Lane used by requests that do not name one (default: the first lane) */
+  defaultLane?: string;
+  /** Backend holding the token state (default: an in-memory store private to the limiter) */
+  store?: RateLimitStore;
+  /** Key of the token state in the store; limiters sharing a store and key share their quota (default: "default") */
+  storeKey?: string;
+  /** Translates the outcome of every executed request into upstream rate limit feedback */
+  feedback?: (outcome: RequestOutcome<any>) => RateLimitFeedback | undefined;
+  /** Tuning of the adaptation to upstream feedback */
+  adaptive?: AdaptiveOptions;
+  /** Retry policy for failed requests (default: no retries) */
+  retry?: RetryOptions;
+  /** Time in milliseconds the result of a request with a `dedupeKey` is reused for later requests with the same key (default: 0, no caching) */
+  cacheTtlMs?: number;
+  /** Source of time and timers (default: the system clock) */
+  clock?: Clock;
+  /** Stops spending tokens on an upstream that keeps failing by failing requests fast for a while (default: no circuit breaker) */
+  circuitBreaker?: CircuitBreakerOptions;
+  /**
+   * Limiter whose windows every admission also has to fit in, e.g. an org-wide quota shared by several services.
+   * Admissions take tokens from the limiter and all of its ancestors at once, or from none of them.
+   */
+  parent?: ApiRateLimiter<any>;
+  /** Share of the parent's windows claimed by this limiter (default: nothing reserved, borrowing up to the whole parent) */
+  share?: ShareOptions;
+  /** Name of the limiter among the children of its parent and in the status (default: the `storeKey`) */
+  name?: string;
+}
+
+/**
+ * Share of the windows of a parent limiter claimed by a child, as fractions of the parent's effective limits
+ * @interface ShareOptions
+ */
+export interface ShareOptions {
+  /**
+   * Fraction held back for the child: while the child leaves it unused, its siblings and the requests
+   * of the parent itself cannot take it (default: 0). The reservations of all children add up to at most 1.
+   */
+  reserved?: number;
+  /** Largest fraction the child may take, borrowing what its siblings leave beyond its reservation (default: 1) */
+  max?: number;
+}
+
+/** Options of the API Rate Limiter that `updateOptions` can change at runtime */
+export type UpdatableOptions = Pick<
+  ApiRateLimiterOptions,
+  "maxPerSecond" | "maxPerMinute" | "windows" | "maxQueueSize" | "maxConcurrent"
+>;
+
+/**
+ * Limits of a rate limiter in effect at some point, as reported by the `reconfigured` event
+ * @interface LimiterLimits
+ */
+export interface LimiterLimits {
+  /** Configured windows, ordered from shortest to longest */
+  windows: RateLimitWindow[];
+  /** Maximum size of the request queue */
+  maxQueueSize: number;
+  /** Maximum number of requests executing at the same time */
+  maxConcurrent: number;
+}
+
+/** Names of the built-in limiting algorithms */
+export type LimitingStrategyName =
+  | "token-bucket"
+  | "fixed-window"
+  | "sliding-window-log"
+  | "sliding-window-counter"
+  | "gcra";
+
+/**
+ * Admission algorithm applied to every rate limit window.
+ * Implementations keep their per-window bookkeeping in a plain, JSON-serializable state object
+ * that they may update in place.
+ * @interface LimitingStrategy
+ */
+export interface LimitingStrategy<S = any> {
+  /** Name of the algorithm */
+  readonly name: string;
+  /** Creates the state of a window with its full capacity available */
+  createState(window: RateLimitWindow, now: number): S;
+  /** Returns the number of whole requests the window would admit at `now` */
+  available(state: S, window: RateLimitWindow, now: number): number;
+  /** Records `cost` requests admitted at `now`; a negative `cost` refunds requests recorded before */
+  consume(state: S, window: RateLimitWindow, cost: number, now: number): void;
+  /** Returns the number of milliseconds from `now` until `cost` requests would be admitted */
+  waitTime(
+    state: S,
+    window: RateLimitWindow,
+    cost: number,
+    now: number
+  ): number;
+  /**
+   * Adapts the state of a window whose limit changes from `from` to `to` at `now`, keeping the used fraction
+   * of the window. Optional: without it, the state is kept as is and read against the new limit.
+   */
+  rescale?(
+    state: S,
+    from: RateLimitWindow,
+    to: RateLimitWindow,
+    now: number
+  ): void;
+}
+
+/**
+ * Token state of a rate limiter as kept in a `RateLimitStore`
+ * @interface LimiterState
+ */
+export interface LimiterState {
+  /** Strategy state of every window, keyed by the window duration in milliseconds */
+  windows: Record<string, any>;
+  /**
+   * Strategy states of the shares of child limiters, keyed by child name and window duration:
+   * `reserved` tracks the unused part of the reservation, `max` what the child took against its maximum share
+   */
+  shares?: Record<string, Record<string, { reserved?: any; max?: any }>>;
+}
+
+/**
+ * Versioned, JSON-serializable snapshot of the state of a rate limiter, produced by `exportState`
+ * @interface LimiterSnapshot
+ */
+export interface LimiterSnapshot {
+  /** Version of the snapshot format */
+  version: number;
+  /** Timestamp in milliseconds at which the snapshot was taken */
+  savedAt: number;
+  /** Name of the limiting strategy the window states belong to */
+  strategy: string;
+  /** Strategy state of every window, keyed by the window duration in milliseconds, with epoch timestamps */
+  windows: Record<string, any>;
+  /** State of the adaptation to upstream feedback */
+  adaptive: AdaptiveState;
+}
+
+/**
+ * Outcome of a state update, returned by the mutation passed to `RateLimitStore.update`
+ * @interface StoreUpdate
+ */
+export interface StoreUpdate<R> {
+  /** The state to store */
+  state: LimiterState;
+  /** Value handed back to the caller of `update` */
+  result: R;
+  /** Time in milliseconds after which an untouched state may be discarded */
+  ttlMs?: number;
+}
+
+/**
+ * Storage backend for the token state of rate limiters.
+ * Limiters that share a store and a key share their quota, e.g. across worker processes.
+ * @interface RateLimitStore
+ */
+export interface RateLimitStore {
+  /**
+   * Atomically reads the state stored under `key`, applies `mutate` and stores the state it returns.
+   * No other update of the same key may interleave, including updates from other processes.
+   * `mutate` receives `undefined` when nothing is stored yet, may modify the state in place,
+   * and may be invoked more than once when an implementation retries after a conflicting update.
+   */
+  update<R>(
+    key: string,
+    mutate: (state: LimiterState | undefined) => StoreUpdate<R>
+  ): Promise<R>;
+}
+
+/**
+ * Remaining capacity of a single rate limit window
+ * @interface WindowStatus
+ */
+export interface WindowStatus {
+  /** Length of the window in milliseconds */
+  durationMs: number;
+  /** Maximum number of requests allowed within the window */
+  limit: number;
+  /** Number of requests still allowed within the window (floored) */
+  remaining: number;
+  /** Milliseconds until the full limit is available again */
+  resetMs: number;
+}
+
+/**
+ * Queue depth of a single lane
+ * @interface LaneStatus
+ */
+export interface LaneStatus {
+  /** Name of the lane */
+  name: string;
+  /** Relative share of admissions of the lane */
+  weight: number;
+  /** Number of requests waiting in the lane */
+  queueSize: number;
+}
+
+/** Lifecycle state of a rate limiter */
+export type LimiterRunState =
+  | "running"
+  | "paused"
+  | "shutting-down"
+  | "shut-down";
+
+/**
+ * Options of `ApiRateLimiter.shutdown`
+ * @interface ShutdownOptions
+ */
+export interface ShutdownOptions {
+  /** Whether queued requests are still processed ("drain", default) or rejected right away ("reject") */
+  mode?: "drain" | "reject";
 }
 
 /**
@@ -31,14 +549,213 @@ export interface ApiRateLimiterOptions {
  * @interface RateLimiterStatus
  */
 export interface RateLimiterStatus {
-  /** Current number of requests in the queue */
+  /** Whether the limiter admits requests, is paused or shuts down */
+  state: LimiterRunState;
+  /** Current number of requests in the queue, across all lanes */
   queueSize: number;
-  /** Number of requests that can be made immediately */
+  /** Queue depth of each lane, ordered from highest to lowest priority */
+  lanes: LaneStatus[];
+  /** Number of admitted requests that have not settled yet */
+  inFlight: number;
+  /** Number of requests that can be made immediately, within the windows of every ancestor and beside the reservations of children */
   availableRequests: number;
-  /** Current count of requests per second */
+  /** Remaining capacity of each window, ordered from shortest to longest */
+  windows: WindowStatus[];
+  /**
+   * Remaining tokens of the one-second window, or of the shortest window without one
+   * @deprecated Use `windows` instead.
+   */
   mpsCounter: number;
-  /** Current count of requests per minute */
+  /**
+   * Remaining tokens of the one-minute window, or of the longest window without one
+   * @deprecated Use `windows` instead.
+   */
   mpmCounter: number;
+  /** Adaptation to upstream feedback */
+  adaptive: AdaptiveStatus;
+  /** State of the circuit breaker, or `null` without one */
+  circuit: CircuitBreakerStatus | null;
+  /** Name of the limiter */
+  name: string;
+  /** Share of the parent claimed by the limiter, if it has a parent */
+  share?: Required<ShareOptions>;
+  /** Status of every child limiter, including their own children */
+  children: RateLimiterStatus[];
+}
+
+/**
+ * Decision of `ApiRateLimiter.tryAcquire`
+ * @interface AcquireResult
+ */
+export interface AcquireResult {
+  /** Whether the tokens were taken and the caller may proceed */
+  allowed: boolean;
+  /** Milliseconds until the same cost would be allowed, or 0 when allowed */
+  retryAfterMs: number;
+  /** Configured limit of the most constrained window */
+  limit: number;
+  /** Whole tokens left in the most constrained window under the effective limits */
+  remaining: number;
+  /** Milliseconds until the most constrained window is back to its full limit */
+  resetMs: number;
+}
+
+/**
+ * Tokens taken ahead of time by `ApiRateLimiter.reserve`
+ * @interface Reservation
+ */
+export interface Reservation {
+  /** Number of tokens taken from every window */
+  cost: number;
+  /** Milliseconds from the reservation until the caller may proceed */
+  delayMs: number;
+  /** Time the caller may proceed, in milliseconds since the epoch */
+  readyAt: number;
+  /** Returns the tokens to every window; has no effect when called again */
+  cancel(): Promise<void>;
+}
+
+/**
+ * Fields shared by the events about a single request
+ * @interface RequestEvent
+ */
+export interface RequestEvent {
+  /** Name of the lane the request waits or waited in */
+  lane: string;
+  /** Number of the attempt, starting at 1 */
+  attempt: number;
+}
+
+/**
+ * Payload of the `enqueued` event
+ * @interface EnqueuedEvent
+ */
+export interface EnqueuedEvent extends RequestEvent {
+  /** Number of queued requests, including this one */
+  queueSize: number;
+}
+
+/**
+ * Payload of the `dequeued` event
+ * @interface DequeuedEvent
+ */
+export interface DequeuedEvent extends RequestEvent {
+  /** Why the request left the queue */
+  reason:
+    | "admitted"
+    | "aborted"
+    | "timeout"
+    | "shutdown"
+    | "dropped"
+    | "circuit-open";
+  /** Time in milliseconds the request waited in the queue */
+  waitMs: number;
+}
+
+/**
+ * Payload of the `started` event
+ * @interface StartedEvent
+ */
+export interface StartedEvent extends RequestEvent {
+  /** Time in milliseconds the request waited in the queue */
+  waitMs: number;
+}
+
+/**
+ * Payload of the `succeeded` event
+ * @interface SucceededEvent
+ */
+export interface SucceededEvent<T> extends RequestEvent {
+  /** The value the request resolved with */
+  result: T;
+  /** Time in milliseconds the request waited in the queue */
+  waitMs: number;
+  /** Execution time of the request in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Payload of the `failed` event
+ * @interface FailedEvent
+ */
+export interface FailedEvent extends RequestEvent {
+  /** The error of the attempt */
+  error: unknown;
+  /** Time in milliseconds the request waited in the queue */
+  waitMs: number;
+  /** Execution time of the attempt in milliseconds */
+  durationMs: number;
+  /** Whether the request is queued again according to its retry policy */
+  willRetry: boolean;
+}
+
+/**
+ * Payload of the `rejected` event
+ * @interface RejectedEvent
+ */
+export interface RejectedEvent {
+  /** Name of the lane the request asked for */
+  lane: string;
+  /** Number of queued requests when the request was rejected */
+  queueSize: number;
+  /** The error thrown by `addRequest` */
+  error: Error;
+}
+
+/** What holds queued requests back: the rate limits, an upstream backoff, the concurrency limit or probes of a half-open circuit */
+export type ThrottleReason =
+  | "rate-limit"
+  | "backoff"
+  | "concurrency"
+  | "circuit";
+
+/**
+ * Payload of the `throttled` event
+ * @interface ThrottledEvent
+ */
+export interface ThrottledEvent {
+  /** Why queued requests could not be admitted */
+  reason: ThrottleReason;
+  /** Number of requests still waiting in the queue */
+  queueSize: number;
+  /** Delay in milliseconds until the next admission attempt, or `null` when a settling request triggers it */
+  retryInMs: number | null;
+}
+
+/**
+ * Payload of the `reconfigured` event
+ * @interface ReconfiguredEvent
+ */
+export interface ReconfiguredEvent {
+  /** Limits before the change */
+  previous: LimiterLimits;
+  /** Limits after the change */
+  current: LimiterLimits;
+}
+
+/**
+ * Events emitted by the rate limiter, mapped to their listener arguments
+ * @interface RateLimiterEvents
+ */
+export interface RateLimiterEvents<T> {
+  /** A request, or a retry of it, entered the queue */
+  enqueued: [EnqueuedEvent];
+  /** A request left the queue, either admitted or evicted */
+  dequeued: [DequeuedEvent];
+  /** An admitted request started executing */
+  started: [StartedEvent];
+  /** A request resolved */
+  succeeded: [SucceededEvent<T>];
+  /** An attempt of a request failed */
+  failed: [FailedEvent];
+  /** A request was refused because the queue is full */
+  rejected: [RejectedEvent];
+  /** A tick left requests waiting in the queue */
+  throttled: [ThrottledEvent];
+  /** `updateOptions` changed the limits */
+  reconfigured: [ReconfiguredEvent];
+  /** The queue is empty and no request is executing or waiting for a retry */
+  drained: [];
 }
 
 /** Promise resolve function type */
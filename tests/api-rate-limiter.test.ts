@@ -1,5 +1,16 @@
 import ApiRateLimiter from "../src/api-rate-limiter";
-import { QueueFullError, InvalidOptionsError } from "../src/errors";
+import {
+  QueueFullError,
+  InvalidOptionsError,
+  RequestAbortedError,
+  InvalidStateError,
+  QueueTimeoutError,
+  RetryFailedError,
+  LimiterShutdownError,
+  RequestDroppedError,
+  CircuitOpenError,
+} from "../src/errors";
+import { MemoryStore } from "../src/stores";
 
 /**
  * Test suite for ApiRateLimiter class
@@ -40,6 +51,31 @@ describe("ApiRateLimiter", () => {
       }).toThrow(InvalidOptionsError);
     });
 
+    it("should throw InvalidOptionsError when a longer window allows fewer requests", () => {
+      expect(() => {
+        new ApiRateLimiter({
+          windows: [
+            { limit: 10, durationMs: 1000 },
+            { limit: 5, durationMs: 60000 },
+          ],
+        });
+      }).toThrow(InvalidOptionsError);
+    });
+
+    it("should throw InvalidOptionsError for empty or duplicate windows", () => {
+      expect(() => new ApiRateLimiter({ windows: [] })).toThrow(
+        InvalidOptionsError
+      );
+      expect(() => {
+        new ApiRateLimiter({
+          windows: [
+            { limit: 5, durationMs: 1000 },
+            { limit: 10, durationMs: 1000 },
+          ],
+        });
+      }).toThrow(InvalidOptionsError);
+    });
+
     it("should initialize with default values when not provided", async () => {
       const limiter = new ApiRateLimiter({});
       const status = await limiter.getStatus();
@@ -94,23 +130,45 @@ describe("ApiRateLimiter", () => {
       const p1 = limiter.addRequest(request1);
       const p2 = limiter.addRequest(request2);
       await Promise.resolve();
-      try {
-        await limiter.addRequest(request3);
-      } catch (error) {
+      const p3 = limiter.addRequest(request3).catch((error) => {
         expect(error).toBeInstanceOf(QueueFullError);
-      }
+      });
 
       resolveReq1("success1");
-      jest.advanceTimersByTime(1000);
+      await jest.advanceTimersByTimeAsync(1000);
       await Promise.resolve();
       const result1 = await p1;
 
       resolveReq2("success2");
-      jest.advanceTimersByTime(1000);
+      await jest.advanceTimersByTimeAsync(1000);
       await Promise.resolve();
       const result2 = await p2;
+      await p3;
       jest.useRealTimers();
     });
+
+    it("should reject with QueueFullError once the requests that cannot be admitted fill the queue", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        maxPerSecond: 1,
+        maxPerMinute: 5,
+        maxQueueSize: 1,
+      });
+      const request = jest.fn(async () => "success");
+
+      const first = limiter.addRequest(request);
+      const second = limiter.addRequest(request);
+      await expect(limiter.addRequest(request)).rejects.toBeInstanceOf(
+        QueueFullError
+      );
+      await jest.advanceTimersByTimeAsync(0);
+      expect(request).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await expect(Promise.all([first, second])).resolves.toEqual([
+        "success",
+        "success",
+      ]);
+    });
   });
 
   /**
@@ -180,17 +238,23 @@ describe("ApiRateLimiter", () => {
       expect(statusAfterSecond.queueSize).toBe(0);
     });
 
-    it("should partially refill mpmCounter based on elapsed time", async () => {
+    it("should partially refill the per-minute window based on elapsed time", async () => {
       const maxPerMinute = 10;
       const maxPerSecond = 5;
+      const store = new MemoryStore();
       const limiter = new ApiRateLimiter<string>({
         maxPerMinute,
         maxPerSecond,
         maxQueueSize: 100,
+        store,
       });
 
-      (limiter as any).mpmCounter = 0;
-      (limiter as any).lastMpmRefill = Date.now();
+      await limiter.getStatus();
+      await store.update("default", (state) => {
+        state!.windows[60000].tokens = 0;
+        state!.windows[60000].lastRefill = Date.now();
+        return { state: state!, result: undefined };
+      });
 
       jest.advanceTimersByTime(30000);
 
@@ -201,160 +265,2132 @@ describe("ApiRateLimiter", () => {
 
       const status = await limiter.getStatus();
       expect(dummyRequest).toHaveBeenCalledTimes(1);
-      expect(status.mpmCounter).toBe(4);
+      expect(status.windows[1].remaining).toBe(4);
     });
-  });
-
-  /**
-   * Tests for status reporting functionality
-   */
-  describe("getStatus", () => {
-    it("should return correct queue size and available requests", async () => {
-      await rateLimiter.addRequest(mockRequest);
-      await rateLimiter.addRequest(mockRequest);
 
-      await rateLimiter.addRequest(mockRequest);
+    it("should admit a queued request as soon as a token is refilled", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 10, durationMs: 1000 }],
+      });
+      const throttled = jest.fn();
+      limiter.on("throttled", throttled);
+      await limiter.tryAcquire(10);
+
+      limiter.addRequest(mockRequest);
+      await jest.advanceTimersByTimeAsync(99);
+      expect(mockRequest).not.toHaveBeenCalled();
+      expect(throttled).toHaveBeenCalledWith({
+        reason: "rate-limit",
+        queueSize: 1,
+        retryInMs: 100,
+      });
 
-      const status = await rateLimiter.getStatus();
-      expect(status.queueSize).toBe(0);
-      expect(status.availableRequests).toBe(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(mockRequest).toHaveBeenCalledTimes(1);
     });
-  });
 
-  /**
-   * Tests for resource cleanup and management
-   */
-  describe("cleanup and resource management", () => {
-    it("should clear timer when queue is empty and counters are reset", async () => {
+    it("should wait for the window that refills last", async () => {
       const limiter = new ApiRateLimiter<string>({
-        maxPerSecond: 2,
-        maxPerMinute: 10,
+        windows: [
+          { limit: 2, durationMs: 1000 },
+          { limit: 2, durationMs: 60000 },
+        ],
       });
+      await limiter.tryAcquire(2);
 
-      await limiter.addRequest(mockRequest);
-      jest.advanceTimersByTime(60000);
+      limiter.addRequest(mockRequest);
+      await jest.advanceTimersByTimeAsync(29999);
+      expect(mockRequest).not.toHaveBeenCalled();
 
-      // @ts-ignore
-      expect(limiter.timer).toBeNull();
+      await jest.advanceTimersByTimeAsync(1);
+      expect(mockRequest).toHaveBeenCalledTimes(1);
     });
 
-    it("should not leak memory when processing many requests", async () => {
+    it("should admit queued requests right away when a reservation is cancelled", async () => {
       const limiter = new ApiRateLimiter<string>({
-        maxPerSecond: 5,
-        maxPerMinute: 100,
-        maxQueueSize: 1000,
+        windows: [{ limit: 1, durationMs: 60000 }],
       });
+      const reservation = await limiter.reserve();
 
-      const requests = Array(100)
-        .fill(null)
-        .map(() => limiter.addRequest(mockRequest));
-
-      jest.advanceTimersByTime(60000);
-      await Promise.all(requests);
+      limiter.addRequest(mockRequest);
+      await jest.advanceTimersByTimeAsync(0);
+      expect(mockRequest).not.toHaveBeenCalled();
 
-      // @ts-ignore - private 속성 접근을 위해
-      expect(limiter.queue.length).toBe(0);
+      await reservation.cancel();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(mockRequest).toHaveBeenCalledTimes(1);
     });
   });
 
   /**
-   * Tests for concurrent request handling
+   * Tests for arbitrary multi-window limits
    */
-  describe("concurrent request handling", () => {
-    it("should handle multiple concurrent requests correctly", async () => {
+  describe("multiple windows", () => {
+    it("should enforce every configured window together", async () => {
       const limiter = new ApiRateLimiter<string>({
-        maxPerSecond: 2,
-        maxPerMinute: 10,
+        windows: [
+          { limit: 3, durationMs: 1000 },
+          { limit: 4, durationMs: 15 * 60000 },
+          { limit: 100, durationMs: 24 * 60 * 60000 },
+        ],
       });
 
-      const concurrentMockRequest = jest.fn(() => Promise.resolve("success"));
+      const requests = Array(4)
+        .fill(null)
+        .map(() => limiter.addRequest(mockRequest));
+      await jest.advanceTimersByTimeAsync(1000);
+      await Promise.all(requests);
 
-      const results = Promise.allSettled([
-        limiter.addRequest(concurrentMockRequest),
-        limiter.addRequest(concurrentMockRequest),
-        limiter.addRequest(concurrentMockRequest),
+      const status = await limiter.getStatus();
+      expect(status.availableRequests).toBe(0);
+      expect(status.windows).toEqual([
+        { durationMs: 1000, limit: 3, remaining: 2, resetMs: 334 },
+        { durationMs: 15 * 60000, limit: 4, remaining: 0, resetMs: 899000 },
+        {
+          durationMs: 24 * 60 * 60000,
+          limit: 100,
+          remaining: 96,
+          resetMs: 3455001,
+        },
       ]);
+    });
 
-      jest.advanceTimersByTime(1000);
-      await Promise.resolve();
-
-      const settledResults = await results;
+    it("should report windows ordered from shortest to longest", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [
+          { limit: 500, durationMs: 15 * 60000 },
+          { limit: 10, durationMs: 1000 },
+        ],
+      });
 
-      expect(settledResults[0].status).toBe("fulfilled");
-      expect(settledResults[1].status).toBe("fulfilled");
-      expect(settledResults[2].status).toBe("fulfilled");
+      const status = await limiter.getStatus();
+      expect(status.windows.map((window) => window.durationMs)).toEqual([
+        1000,
+        15 * 60000,
+      ]);
     });
   });
 
   /**
-   * Tests for various error scenarios
+   * Tests for selecting the limiting strategy
    */
-  describe("error scenarios", () => {
-    it("should maintain rate limits even after errors", async () => {
-      const errorRequest = jest.fn().mockRejectedValue(new Error("API Error"));
+  describe("strategy option", () => {
+    it("should throw InvalidOptionsError for an unknown strategy", () => {
+      expect(() => {
+        new ApiRateLimiter({ strategy: "leaky-bucket" as any });
+      }).toThrow(InvalidOptionsError);
+    });
+
+    it("should not allow bursts across the window edge with the sliding window log", async () => {
       const limiter = new ApiRateLimiter<string>({
-        maxPerSecond: 1,
-        maxPerMinute: 5,
+        windows: [{ limit: 2, durationMs: 1000 }],
+        strategy: "sliding-window-log",
       });
 
-      await expect(limiter.addRequest(errorRequest)).rejects.toThrow();
+      jest.advanceTimersByTime(900);
+      await Promise.all([
+        limiter.addRequest(mockRequest),
+        limiter.addRequest(mockRequest),
+      ]);
 
+      jest.advanceTimersByTime(200);
       const status = await limiter.getStatus();
       expect(status.availableRequests).toBe(0);
 
-      jest.advanceTimersByTime(1000);
-      const statusAfterWait = await limiter.getStatus();
-      expect(statusAfterWait.availableRequests).toBe(0);
+      jest.advanceTimersByTime(800);
+      const statusAfterWindow = await limiter.getStatus();
+      expect(statusAfterWindow.availableRequests).toBe(2);
     });
   });
 
   /**
-   * Tests for edge cases and boundary conditions
+   * Tests for priority lanes
    */
-  describe("edge cases", () => {
-    it("should handle minimum valid configuration", () => {
+  describe("priority lanes", () => {
+    const lanes = [
+      { name: "interactive", weight: 4 },
+      { name: "background", weight: 1 },
+    ];
+
+    it("should throw InvalidOptionsError for invalid lanes", () => {
+      expect(() => new ApiRateLimiter({ lanes: [] })).toThrow(
+        InvalidOptionsError
+      );
       expect(() => {
-        new ApiRateLimiter({
-          maxPerSecond: 1,
-          maxPerMinute: 1,
-          maxQueueSize: 1,
-        });
-      }).not.toThrow();
-    });
-
-    it("should handle zero request scenario correctly", async () => {
+        new ApiRateLimiter({ lanes: [{ name: "a" }, { name: "a" }] });
+      }).toThrow(InvalidOptionsError);
       expect(() => {
-        new ApiRateLimiter<string>({
-          maxPerSecond: 0,
-          maxPerMinute: 0,
-        });
+        new ApiRateLimiter({ lanes: [{ name: "a", weight: 0 }] });
+      }).toThrow(InvalidOptionsError);
+      expect(() => {
+        new ApiRateLimiter({ lanes, defaultLane: "missing" });
       }).toThrow(InvalidOptionsError);
     });
+
+    it("should reject requests for an unknown lane", async () => {
+      const limiter = new ApiRateLimiter<string>({ lanes });
+      await expect(
+        limiter.addRequest(mockRequest, { lane: "batch" })
+      ).rejects.toBeInstanceOf(InvalidOptionsError);
+    });
+
+    it("should admit interactive requests ahead of queued background work", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 1, durationMs: 1000 }],
+        lanes,
+        defaultLane: "background",
+      });
+      const order: string[] = [];
+      const track = (name: string) => () => {
+        order.push(name);
+        return Promise.resolve(name);
+      };
+
+      const requests = [
+        limiter.addRequest(track("sync-0")),
+        limiter.addRequest(track("sync-1")),
+        limiter.addRequest(track("sync-2")),
+        limiter.addRequest(track("user-0"), { lane: "interactive" }),
+      ];
+
+      const status = await limiter.getStatus();
+      expect(status.queueSize).toBe(4);
+      expect(status.lanes).toEqual([
+        { name: "interactive", weight: 4, queueSize: 1 },
+        { name: "background", weight: 1, queueSize: 3 },
+      ]);
+
+      await jest.advanceTimersByTimeAsync(3000);
+      await Promise.all(requests);
+      expect(order).toEqual(["user-0", "sync-0", "sync-1", "sync-2"]);
+    });
   });
 
   /**
-   * Tests for rate limit counter recovery behavior
+   * Tests for cancellation and queue wait deadlines
    */
-  describe("counter recovery", () => {
-    it("should recover request capacity over time", async () => {
+  describe("cancellation and timeouts", () => {
+    it("should reject immediately when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        rateLimiter.addRequest(mockRequest, { signal: controller.signal })
+      ).rejects.toBeInstanceOf(RequestAbortedError);
+      expect(mockRequest).not.toHaveBeenCalled();
+    });
+
+    it("should remove an aborted request from the queue without consuming tokens", async () => {
+      const controller = new AbortController();
+      await rateLimiter.addRequest(mockRequest);
+      await rateLimiter.addRequest(mockRequest);
+
+      const aborted = rateLimiter.addRequest(mockRequest, {
+        signal: controller.signal,
+      });
+      const kept = rateLimiter.addRequest(mockRequest);
+      expect((await rateLimiter.getStatus()).queueSize).toBe(2);
+
+      controller.abort("client disconnected");
+      await expect(aborted).rejects.toMatchObject({
+        name: "RequestAbortedError",
+        reason: "client disconnected",
+      });
+      expect((await rateLimiter.getStatus()).queueSize).toBe(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await expect(kept).resolves.toBe("success");
+      expect(mockRequest).toHaveBeenCalledTimes(3);
+
+      const status = await rateLimiter.getStatus();
+      expect(status.windows[1].remaining).toBe(7);
+    });
+
+    it("should reject with QueueTimeoutError when not admitted within maxWaitMs", async () => {
+      await rateLimiter.addRequest(mockRequest);
+      await rateLimiter.addRequest(mockRequest);
+
+      const expiring = rateLimiter.addRequest(mockRequest, { maxWaitMs: 300 });
+      const assertion =
+        expect(expiring).rejects.toBeInstanceOf(QueueTimeoutError);
+      await jest.advanceTimersByTimeAsync(300);
+      await assertion;
+
+      expect((await rateLimiter.getStatus()).queueSize).toBe(0);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(mockRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not affect a request once it has been admitted", async () => {
+      const controller = new AbortController();
+      const result = await rateLimiter.addRequest(mockRequest, {
+        signal: controller.signal,
+        maxWaitMs: 100,
+      });
+      controller.abort();
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(result).toBe("success");
+    });
+
+    it("should throw InvalidOptionsError for a negative maxWaitMs", async () => {
+      await expect(
+        rateLimiter.addRequest(mockRequest, { maxWaitMs: -1 })
+      ).rejects.toBeInstanceOf(InvalidOptionsError);
+    });
+  });
+
+  /**
+   * Tests for adaptation to upstream rate limit feedback
+   */
+  describe("adaptive limiting", () => {
+    const rateLimited = Object.assign(new Error("Too Many Requests"), {
+      status: 429,
+      retryAfterMs: 3000,
+    });
+    const feedback = (outcome: any) =>
+      !outcome.ok && outcome.error.status === 429
+        ? { retryAfterMs: outcome.error.retryAfterMs }
+        : undefined;
+
+    it("should throw InvalidOptionsError for out of range tuning", () => {
+      expect(() => {
+        new ApiRateLimiter({ adaptive: { decreaseFactor: 1 } });
+      }).toThrow(InvalidOptionsError);
+      expect(() => {
+        new ApiRateLimiter({ adaptive: { minScale: 0 } });
+      }).toThrow(InvalidOptionsError);
+      expect(() => {
+        new ApiRateLimiter({ adaptive: { increaseStep: 0 } });
+      }).toThrow(InvalidOptionsError);
+    });
+
+    it("should pause for Retry-After and shrink the limits after a 429", async () => {
+      const limiter = new ApiRateLimiter<string>(
+        { windows: [{ limit: 10, durationMs: 1000 }], feedback },
+        jest.fn()
+      );
+
+      await expect(
+        limiter.addRequest(() => Promise.reject(rateLimited))
+      ).rejects.toBe(rateLimited);
+
+      const status = await limiter.getStatus();
+      expect(status.adaptive).toEqual({
+        scale: 0.5,
+        backoffMs: 3000,
+        upstreamRemaining: null,
+      });
+      expect(status.windows[0].remaining).toBe(5);
+
+      const next = jest.fn().mockResolvedValue("success");
+      const pending = limiter.addRequest(next);
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(next).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await expect(pending).resolves.toBe("success");
+    });
+
+    it("should count a burst of 429s as a single decrease", async () => {
+      const limiter = new ApiRateLimiter<string>(
+        { windows: [{ limit: 10, durationMs: 1000 }], feedback },
+        jest.fn()
+      );
+
+      await Promise.allSettled(
+        Array(3)
+          .fill(null)
+          .map(() => limiter.addRequest(() => Promise.reject(rateLimited)))
+      );
+
+      expect((await limiter.getStatus()).adaptive.scale).toBe(0.5);
+    });
+
+    it("should recover to the configured limits after successful requests", async () => {
       const limiter = new ApiRateLimiter<string>({
-        maxPerSecond: 2,
-        maxPerMinute: 4,
+        windows: [{ limit: 100, durationMs: 1000 }],
+        adaptive: { increaseStep: 0.25 },
       });
+      limiter.reportFeedback({ limited: true });
+      expect((await limiter.getStatus()).adaptive.scale).toBe(0.5);
 
       await limiter.addRequest(mockRequest);
       await limiter.addRequest(mockRequest);
+      expect((await limiter.getStatus()).adaptive.scale).toBe(1);
 
-      const initialStatus = await limiter.getStatus();
-      expect(initialStatus.availableRequests).toBe(1);
+      await limiter.addRequest(mockRequest);
+      expect((await limiter.getStatus()).adaptive.scale).toBe(1);
+    });
+
+    it("should cap admissions to the remaining upstream quota until it resets", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 10, durationMs: 1000 }],
+      });
+      limiter.reportFeedback({ remaining: 1, resetAt: Date.now() + 5000 });
+
+      const requests = Array(3)
+        .fill(null)
+        .map(() => limiter.addRequest(mockRequest));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+      expect((await limiter.getStatus()).adaptive.upstreamRemaining).toBe(0);
+
+      await jest.advanceTimersByTimeAsync(3000);
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(2000);
+      await Promise.all(requests);
+      expect(mockRequest).toHaveBeenCalledTimes(3);
+      expect((await limiter.getStatus()).adaptive.upstreamRemaining).toBeNull();
+    });
+
+    it("should prefer the feedback of a request over the limiter's", async () => {
+      const limiterFeedback = jest.fn();
+      const limiter = new ApiRateLimiter<string>(
+        { feedback: limiterFeedback },
+        jest.fn()
+      );
+
+      await expect(
+        limiter.addRequest(() => Promise.reject(rateLimited), { feedback })
+      ).rejects.toBe(rateLimited);
+
+      expect(limiterFeedback).not.toHaveBeenCalled();
+      expect((await limiter.getStatus()).adaptive.backoffMs).toBe(3000);
+    });
+  });
+
+  /**
+   * Tests for retries of failed requests
+   */
+  describe("retries", () => {
+    const retry = { maxAttempts: 3, baseDelayMs: 100, jitter: "none" as const };
+
+    it("should retry through the queue until the request succeeds", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 10, durationMs: 60000 }],
+        retry,
+      });
+      const flaky = jest
+        .fn()
+        .mockRejectedValueOnce(new Error("reset"))
+        .mockRejectedValueOnce(new Error("reset"))
+        .mockResolvedValue("success");
+
+      const result = limiter.addRequest(flaky);
+      await jest.advanceTimersByTimeAsync(99);
+      expect(flaky).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await expect(result).resolves.toBe("success");
+      expect(flaky).toHaveBeenCalledTimes(3);
+      expect((await limiter.getStatus()).windows[0].remaining).toBe(7);
+    });
+
+    it("should reject with the attempt history once attempts are exhausted", async () => {
+      const errorHandler = jest.fn();
+      const limiter = new ApiRateLimiter<string>(
+        { windows: [{ limit: 10, durationMs: 1000 }], retry },
+        errorHandler
+      );
+      const failures = [new Error("1"), new Error("2"), new Error("3")];
+      const failing = jest
+        .fn()
+        .mockRejectedValueOnce(failures[0])
+        .mockRejectedValueOnce(failures[1])
+        .mockRejectedValueOnce(failures[2]);
+
+      const result = limiter.addRequest(failing);
+      const assertion = expect(result).rejects.toBeInstanceOf(RetryFailedError);
+      await jest.advanceTimersByTimeAsync(2000);
+      await assertion;
+
+      const error: RetryFailedError = await result.catch((e) => e);
+      expect(error.lastError).toBe(failures[2]);
+      expect(
+        error.attempts.map(({ attempt, error, delayMs }) => ({
+          attempt,
+          error,
+          delayMs,
+        }))
+      ).toEqual([
+        { attempt: 1, error: failures[0], delayMs: 100 },
+        { attempt: 2, error: failures[1], delayMs: 200 },
+        { attempt: 3, error: failures[2], delayMs: null },
+      ]);
+      expect(errorHandler).toHaveBeenCalledTimes(1);
+      expect(errorHandler).toHaveBeenCalledWith(error);
+    });
+
+    it("should not retry errors the policy considers permanent", async () => {
+      const notFound = Object.assign(new Error("Not Found"), { status: 404 });
+      const limiter = new ApiRateLimiter<string>(
+        {
+          retry: { ...retry, retryable: (error: any) => error.status >= 500 },
+        },
+        jest.fn()
+      );
+      const request = jest.fn().mockRejectedValue(notFound);
+
+      await expect(limiter.addRequest(request)).rejects.toBe(notFound);
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it("should allow a request to opt out of retries", async () => {
+      const limiter = new ApiRateLimiter<string>({ retry }, jest.fn());
+      const request = jest.fn().mockRejectedValue(new Error("API Error"));
+
+      await expect(
+        limiter.addRequest(request, { retry: false })
+      ).rejects.toThrow("API Error");
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject right away when aborted during the backoff", async () => {
+      const limiter = new ApiRateLimiter<string>({}, jest.fn());
+      const controller = new AbortController();
+      const request = jest.fn().mockRejectedValue(new Error("reset"));
+
+      const result = limiter.addRequest(request, {
+        signal: controller.signal,
+        retry: { baseDelayMs: 5000, maxDelayMs: 5000, jitter: "none" },
+      });
+      await jest.advanceTimersByTimeAsync(0);
+      controller.abort();
+
+      await expect(result).rejects.toBeInstanceOf(RequestAbortedError);
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  /**
+   * Tests for the concurrency limit
+   */
+  describe("concurrency limit", () => {
+    const deferred = () => {
+      let resolve!: (value: string) => void;
+      const promise = new Promise<string>((r) => (resolve = r));
+      return { promise, resolve };
+    };
+
+    it("should throw InvalidOptionsError for an invalid maxConcurrent", () => {
+      expect(() => new ApiRateLimiter({ maxConcurrent: 0 })).toThrow(
+        InvalidOptionsError
+      );
+      expect(() => new ApiRateLimiter({ maxConcurrent: 1.5 })).toThrow(
+        InvalidOptionsError
+      );
+    });
+
+    it("should cap in-flight requests and hand freed slots over right away", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 100, durationMs: 1000 }],
+        maxConcurrent: 2,
+      });
+      const calls = [deferred(), deferred(), deferred(), deferred()];
+      const requests = calls.map((call) => jest.fn(() => call.promise));
+
+      const results = requests.map((request) => limiter.addRequest(request));
+      await jest.advanceTimersByTimeAsync(0);
+
+      let status = await limiter.getStatus();
+      expect(status.inFlight).toBe(2);
+      expect(status.queueSize).toBe(2);
+      expect(requests[2]).not.toHaveBeenCalled();
+
+      calls[0].resolve("first");
+      await jest.advanceTimersByTimeAsync(0);
+      expect(requests[2]).toHaveBeenCalled();
+      expect(requests[3]).not.toHaveBeenCalled();
+
+      calls[1].resolve("second");
+      calls[2].resolve("third");
+      calls[3].resolve("fourth");
+      await expect(Promise.all(results)).resolves.toEqual([
+        "first",
+        "second",
+        "third",
+        "fourth",
+      ]);
+      status = await limiter.getStatus();
+      expect(status.inFlight).toBe(0);
+    });
+
+    it("should not let a slow request hold back the next tick", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 1, durationMs: 1000 }],
+      });
+      const slow = deferred();
+
+      limiter.addRequest(() => slow.promise);
+      const next = limiter.addRequest(mockRequest);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await expect(next).resolves.toBe("success");
+      expect((await limiter.getStatus()).inFlight).toBe(1);
+      slow.resolve("done");
+    });
+  });
+
+  /**
+   * Tests for lifecycle events
+   */
+  describe("events", () => {
+    it("should emit the lifecycle of a successful request with wait and execution times", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 1, durationMs: 1000 }],
+      });
+      const events: string[] = [];
+      const names = [
+        "enqueued",
+        "dequeued",
+        "started",
+        "succeeded",
+        "throttled",
+        "drained",
+      ] as const;
+      names.forEach((name) => limiter.on(name, () => events.push(name)));
+      const succeeded = jest.fn();
+      const started = jest.fn();
+      limiter.on("succeeded", succeeded);
+      limiter.on("started", started);
+
+      limiter.addRequest(mockRequest);
+      limiter.addRequest(
+        () => new Promise((resolve) => setTimeout(resolve, 50, "slow"))
+      );
+      await jest.advanceTimersByTimeAsync(1050);
+
+      expect(events).toEqual([
+        "enqueued",
+        "enqueued",
+        "dequeued",
+        "started",
+        "throttled",
+        "succeeded",
+        "dequeued",
+        "started",
+        "succeeded",
+        "drained",
+      ]);
+      expect(started).toHaveBeenLastCalledWith({
+        lane: "default",
+        attempt: 1,
+        waitMs: 1000,
+      });
+      expect(succeeded).toHaveBeenLastCalledWith({
+        lane: "default",
+        attempt: 1,
+        result: "slow",
+        waitMs: 1000,
+        durationMs: 50,
+      });
+    });
+
+    it("should emit failed attempts and whether they are retried", async () => {
+      const limiter = new ApiRateLimiter<string>(
+        {
+          windows: [{ limit: 10, durationMs: 1000 }],
+          retry: { maxAttempts: 2, baseDelayMs: 100, jitter: "none" },
+        },
+        jest.fn()
+      );
+      const failed = jest.fn();
+      const drained = jest.fn();
+      limiter.on("failed", failed);
+      limiter.on("drained", drained);
+      const error = new Error("boom");
+
+      const result = limiter.addRequest(jest.fn().mockRejectedValue(error));
+      result.catch(() => {});
+      await jest.advanceTimersByTimeAsync(0);
+      expect(failed).toHaveBeenCalledWith(
+        expect.objectContaining({ attempt: 1, error, willRetry: true })
+      );
+      expect(drained).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(100);
+      await expect(result).rejects.toBeInstanceOf(RetryFailedError);
+      expect(failed).toHaveBeenLastCalledWith(
+        expect.objectContaining({ attempt: 2, error, willRetry: false })
+      );
+      expect(drained).toHaveBeenCalledTimes(1);
+    });
+
+    it("should emit rejected when the queue is full", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 1, durationMs: 1000 }],
+        maxQueueSize: 1,
+      });
+      const rejected = jest.fn();
+      limiter.on("rejected", rejected);
+
+      limiter.addRequest(mockRequest);
+      await jest.advanceTimersByTimeAsync(0);
+      limiter.addRequest(mockRequest);
+      await jest.advanceTimersByTimeAsync(0);
+      await expect(limiter.addRequest(mockRequest)).rejects.toBeInstanceOf(
+        QueueFullError
+      );
+
+      expect(rejected).toHaveBeenCalledWith({
+        lane: "default",
+        queueSize: 1,
+        error: expect.any(QueueFullError),
+      });
+    });
+
+    it("should emit dequeued with the reason of an eviction", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 1, durationMs: 1000 }],
+      });
+      const dequeued = jest.fn();
+      limiter.on("dequeued", dequeued);
+
+      limiter.addRequest(mockRequest);
+      const timedOut = limiter.addRequest(mockRequest, { maxWaitMs: 300 });
+      timedOut.catch(() => {});
+      await jest.advanceTimersByTimeAsync(300);
+
+      await expect(timedOut).rejects.toBeInstanceOf(QueueTimeoutError);
+      expect(dequeued).toHaveBeenLastCalledWith({
+        lane: "default",
+        attempt: 1,
+        reason: "timeout",
+        waitMs: 300,
+      });
+    });
+
+    it("should report why queued requests are throttled", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 10, durationMs: 1000 }],
+        maxConcurrent: 1,
+      });
+      const throttled = jest.fn();
+      limiter.on("throttled", throttled);
+
+      limiter.addRequest(() => new Promise(() => {}));
+      limiter.addRequest(mockRequest);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(throttled).toHaveBeenCalledWith({
+        reason: "concurrency",
+        queueSize: 1,
+        retryInMs: null,
+      });
+    });
+
+    it("should pass errors thrown by listeners to the error handler", async () => {
+      const errorHandler = jest.fn();
+      const limiter = new ApiRateLimiter<string>({}, errorHandler);
+      const listenerError = new Error("listener");
+      limiter.on("started", () => {
+        throw listenerError;
+      });
+
+      await expect(limiter.addRequest(mockRequest)).resolves.toBe("success");
+      expect(errorHandler).toHaveBeenCalledWith(listenerError);
+    });
+  });
+
+  /**
+   * Tests for requests that cost more than one token
+   */
+  describe("weighted costs", () => {
+    it("should throw InvalidOptionsError for a non-positive cost", async () => {
+      await expect(
+        rateLimiter.addRequest(mockRequest, { cost: 0 })
+      ).rejects.toBeInstanceOf(InvalidOptionsError);
+      await expect(
+        rateLimiter.addRequest(mockRequest, { cost: NaN })
+      ).rejects.toBeInstanceOf(InvalidOptionsError);
+    });
+
+    it("should throw InvalidOptionsError for a fractional cost", async () => {
+      await expect(
+        rateLimiter.addRequest(mockRequest, { cost: 0.5 })
+      ).rejects.toBeInstanceOf(InvalidOptionsError);
+      await expect(rateLimiter.tryAcquire(1.5)).rejects.toBeInstanceOf(
+        InvalidOptionsError
+      );
+    });
+
+    it("should deduct the cost from every window", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [
+          { limit: 10, durationMs: 1000 },
+          { limit: 100, durationMs: 60000 },
+        ],
+      });
+
+      await limiter.addRequest(mockRequest, { cost: 4 });
+      const status = await limiter.getStatus();
+      expect(status.windows.map((window) => window.remaining)).toEqual([6, 96]);
+    });
+
+    it("should not let cheaper requests overtake a costly one", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 10, durationMs: 1000 }],
+      });
+      const order: string[] = [];
+      const track = (name: string) => async () => {
+        order.push(name);
+        return name;
+      };
+
+      limiter.addRequest(track("first"), { cost: 6 });
+      limiter.addRequest(track("costly"), { cost: 8 });
+      limiter.addRequest(track("cheap"), { cost: 1 });
+      await jest.advanceTimersByTimeAsync(0);
+      expect(order).toEqual(["first"]);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(order).toEqual(["first", "costly", "cheap"]);
+    });
+
+    it("should admit a cost above the limit once the window is full", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 10, durationMs: 1000 }],
+      });
+
+      await expect(limiter.addRequest(mockRequest, { cost: 25 })).resolves.toBe(
+        "success"
+      );
+      expect((await limiter.getStatus()).availableRequests).toBe(0);
+    });
+
+    it("should charge or refund the difference to the actual cost", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 100, durationMs: 60000 }],
+      });
+
+      await limiter.addRequest(mockRequest, {
+        cost: 50,
+        actualCost: () => 10,
+      });
+      expect((await limiter.getStatus()).availableRequests).toBe(90);
+
+      await limiter.addRequest(mockRequest, {
+        cost: 10,
+        actualCost: (outcome) => (outcome.ok ? 30 : undefined),
+      });
+      expect((await limiter.getStatus()).availableRequests).toBe(60);
+    });
+  });
+
+  /**
+   * Tests for immediate acquisition and reservations
+   */
+  describe("tryAcquire and reserve", () => {
+    let limiter: ApiRateLimiter<string>;
+
+    beforeEach(() => {
+      limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 10, durationMs: 1000 }],
+      });
+    });
+
+    it("should allow while tokens remain and report when to retry", async () => {
+      await expect(limiter.tryAcquire(8)).resolves.toEqual({
+        allowed: true,
+        retryAfterMs: 0,
+        limit: 10,
+        remaining: 2,
+        resetMs: 800,
+      });
+      await expect(limiter.tryAcquire(5)).resolves.toEqual({
+        allowed: false,
+        retryAfterMs: 300,
+        limit: 10,
+        remaining: 2,
+        resetMs: 800,
+      });
+
+      await jest.advanceTimersByTimeAsync(300);
+      expect((await limiter.tryAcquire(5)).allowed).toBe(true);
+    });
+
+    it("should share tokens with queued requests", async () => {
+      await limiter.tryAcquire(10);
+
+      const result = limiter.addRequest(mockRequest);
+      await jest.advanceTimersByTimeAsync(0);
+      expect(mockRequest).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await expect(result).resolves.toBe("success");
+      expect((await limiter.tryAcquire()).remaining).toBeLessThan(10);
+    });
+
+    it("should throw InvalidOptionsError for a non-positive cost", async () => {
+      await expect(limiter.tryAcquire(-1)).rejects.toBeInstanceOf(
+        InvalidOptionsError
+      );
+      await expect(limiter.reserve(0)).rejects.toBeInstanceOf(
+        InvalidOptionsError
+      );
+    });
+
+    it("should reserve tokens ahead of time with the exact time to proceed", async () => {
+      await limiter.tryAcquire(10);
+
+      const first = await limiter.reserve(2);
+      const second = await limiter.reserve(3);
+      expect(first.delayMs).toBe(200);
+      expect(second.delayMs).toBe(500);
+      expect(second.readyAt).toBe(Date.now() + 500);
+      expect((await limiter.tryAcquire()).retryAfterMs).toBe(600);
+    });
+
+    it("should return the tokens of a cancelled reservation", async () => {
+      const reservation = await limiter.reserve(6);
+      expect((await limiter.tryAcquire(6)).allowed).toBe(false);
+
+      await reservation.cancel();
+      await reservation.cancel();
+      await expect(limiter.tryAcquire(6)).resolves.toMatchObject({
+        allowed: true,
+        remaining: 4,
+      });
+    });
+
+    it("should stay within the remaining upstream quota until it resets", async () => {
+      limiter.reportFeedback({ remaining: 1, resetAt: Date.now() + 5000 });
+
+      expect((await limiter.tryAcquire()).allowed).toBe(true);
+      await expect(limiter.tryAcquire()).resolves.toMatchObject({
+        allowed: false,
+        retryAfterMs: 5000,
+      });
+      expect((await limiter.reserve()).delayMs).toBe(5000);
+
+      await jest.advanceTimersByTimeAsync(5000);
+      expect((await limiter.tryAcquire()).allowed).toBe(true);
+    });
+
+    it("should fail fast after shutdown", async () => {
+      await limiter.shutdown();
+      await expect(limiter.tryAcquire()).rejects.toBeInstanceOf(
+        LimiterShutdownError
+      );
+    });
+  });
+
+  /**
+   * Tests for request deduplication and result caching
+   */
+  describe("deduplication", () => {
+    let limiter: ApiRateLimiter<string>;
+
+    beforeEach(() => {
+      limiter = new ApiRateLimiter<string>(
+        { windows: [{ limit: 1, durationMs: 1000 }], maxQueueSize: 1 },
+        jest.fn()
+      );
+    });
+
+    it("should throw InvalidOptionsError for a negative cacheTtlMs", async () => {
+      expect(() => new ApiRateLimiter({ cacheTtlMs: -1 })).toThrow(
+        InvalidOptionsError
+      );
+      await expect(
+        limiter.addRequest(mockRequest, { dedupeKey: "a", cacheTtlMs: NaN })
+      ).rejects.toThrow(InvalidOptionsError);
+    });
+
+    it("should share one queue slot and one execution between identical requests", async () => {
+      await limiter.addRequest(mockRequest);
+      mockRequest.mockClear();
+
+      const results = Array(3)
+        .fill(null)
+        .map(() => limiter.addRequest(mockRequest, { dedupeKey: "GET /a" }));
+      await jest.advanceTimersByTimeAsync(0);
+      expect((await limiter.getStatus()).queueSize).toBe(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await expect(Promise.all(results)).resolves.toEqual([
+        "success",
+        "success",
+        "success",
+      ]);
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject every caller when the shared request fails", async () => {
+      const error = new Error("boom");
+      const failing = jest.fn().mockRejectedValue(error);
+
+      const results = [
+        limiter.addRequest(failing, { dedupeKey: "a" }),
+        limiter.addRequest(failing, { dedupeKey: "a" }),
+      ];
+
+      for (const result of results) {
+        await expect(result).rejects.toBe(error);
+      }
+      expect(failing).toHaveBeenCalledTimes(1);
+
+      const retried = limiter.addRequest(mockRequest, { dedupeKey: "a" });
+      await jest.advanceTimersByTimeAsync(1000);
+      await expect(retried).resolves.toBe("success");
+    });
+
+    it("should let a joined caller stop waiting without cancelling the request", async () => {
+      const controller = new AbortController();
+      const first = limiter.addRequest(mockRequest, { dedupeKey: "a" });
+      const joined = limiter.addRequest(mockRequest, {
+        dedupeKey: "a",
+        signal: controller.signal,
+      });
+
+      controller.abort();
+      await expect(joined).rejects.toBeInstanceOf(RequestAbortedError);
+      await expect(first).resolves.toBe("success");
+    });
+
+    it("should keep the request queued for joined callers when the first caller aborts", async () => {
+      await limiter.addRequest(mockRequest);
+      mockRequest.mockClear();
+      const controller = new AbortController();
+      const first = limiter.addRequest(mockRequest, {
+        dedupeKey: "a",
+        signal: controller.signal,
+      });
+      const joined = limiter.addRequest(mockRequest, { dedupeKey: "a" });
+
+      controller.abort();
+      await expect(first).rejects.toBeInstanceOf(RequestAbortedError);
+      await jest.advanceTimersByTimeAsync(1000);
+      await expect(joined).resolves.toBe("success");
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it("should cancel the queued request once every caller stopped waiting", async () => {
+      await limiter.addRequest(mockRequest);
+      mockRequest.mockClear();
+      const controller = new AbortController();
+      const results = Promise.allSettled([
+        limiter.addRequest(mockRequest, {
+          dedupeKey: "a",
+          signal: controller.signal,
+        }),
+        limiter.addRequest(mockRequest, { dedupeKey: "a", maxWaitMs: 100 }),
+      ]);
+
+      await jest.advanceTimersByTimeAsync(100);
+      controller.abort();
+      const [aborted, timedOut] = await results;
+      expect(aborted.status === "rejected" && aborted.reason).toBeInstanceOf(
+        RequestAbortedError
+      );
+      expect(timedOut.status === "rejected" && timedOut.reason).toBeInstanceOf(
+        QueueTimeoutError
+      );
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect((await limiter.getStatus()).queueSize).toBe(0);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(mockRequest).not.toHaveBeenCalled();
+    });
+
+    it("should reuse cached results until cacheTtlMs has passed", async () => {
+      const cached = new ApiRateLimiter<string>({ cacheTtlMs: 500 });
+
+      await cached.addRequest(mockRequest, { dedupeKey: "a" });
+      await jest.advanceTimersByTimeAsync(499);
+      await cached.addRequest(mockRequest, { dedupeKey: "a" });
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1);
+      await cached.addRequest(mockRequest, { dedupeKey: "a" });
+      expect(mockRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it("should cache per request and clear the cache on demand", async () => {
+      await limiter.addRequest(mockRequest, {
+        dedupeKey: "a",
+        cacheTtlMs: 60000,
+      });
+      await limiter.addRequest(mockRequest, { dedupeKey: "a" });
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+
+      limiter.clearCache("a");
+      const result = limiter.addRequest(mockRequest, { dedupeKey: "a" });
+      await jest.advanceTimersByTimeAsync(1000);
+      await expect(result).resolves.toBe("success");
+      expect(mockRequest).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  /**
+   * Tests for exporting and importing the limiter state
+   */
+  describe("state export and import", () => {
+    const windows = [
+      { limit: 2, durationMs: 1000 },
+      { limit: 10, durationMs: 60000 },
+    ];
+
+    it("should export a versioned, JSON-serializable snapshot", async () => {
+      const limiter = new ApiRateLimiter<string>({ windows });
+      await limiter.tryAcquire(2);
+
+      const snapshot = await limiter.exportState();
+      expect(snapshot).toMatchObject({
+        version: 1,
+        savedAt: Date.now(),
+        strategy: "token-bucket",
+        adaptive: { scale: 1, backoffUntil: 0, upstream: null },
+      });
+      expect(Object.keys(snapshot.windows)).toEqual(["1000", "60000"]);
+      expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+    });
+
+    it("should restore the token levels into a new limiter", async () => {
+      const limiter = new ApiRateLimiter<string>({ windows });
+      await limiter.tryAcquire(2);
+      limiter.reportFeedback({ retryAfterMs: 5000 });
+      const snapshot = JSON.parse(JSON.stringify(await limiter.exportState()));
+
+      const restored = new ApiRateLimiter<string>({ windows });
+      await restored.importState(snapshot);
+
+      const status = await restored.getStatus();
+      expect(status.windows.map((window) => window.remaining)).toEqual([0, 5]);
+      expect(status.adaptive).toEqual({
+        scale: 0.5,
+        backoffMs: 5000,
+        upstreamRemaining: null,
+      });
+    });
+
+    it("should count the time since the snapshot as elapsed", async () => {
+      const limiter = new ApiRateLimiter<string>({ windows });
+      await limiter.tryAcquire(2);
+      const snapshot = await limiter.exportState();
+
+      await jest.advanceTimersByTimeAsync(6000);
+      const restored = new ApiRateLimiter<string>({ windows });
+      await restored.importState(snapshot);
+
+      const status = await restored.getStatus();
+      expect(status.windows.map((window) => window.remaining)).toEqual([2, 9]);
+    });
+
+    it("should reject snapshots of another version or strategy", async () => {
+      const limiter = new ApiRateLimiter<string>({ windows });
+      const snapshot = await limiter.exportState();
+
+      await expect(
+        limiter.importState({ ...snapshot, version: 2 })
+      ).rejects.toThrow(InvalidStateError);
+      await expect(
+        new ApiRateLimiter<string>({ windows, strategy: "gcra" }).importState(
+          snapshot
+        )
+      ).rejects.toThrow(InvalidStateError);
+    });
+  });
+
+  /**
+   * Tests for changing the limits of a running limiter
+   */
+  describe("runtime reconfiguration", () => {
+    it("should keep the used fraction of a window when its limit changes", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 10, durationMs: 1000 }],
+      });
+      const reconfigured = jest.fn();
+      limiter.on("reconfigured", reconfigured);
+      await limiter.tryAcquire(5);
+
+      await limiter.updateOptions({
+        windows: [{ limit: 20, durationMs: 1000 }],
+      });
+
+      const status = await limiter.getStatus();
+      expect(status.windows).toEqual([
+        { durationMs: 1000, limit: 20, remaining: 10, resetMs: 500 },
+      ]);
+      expect(reconfigured).toHaveBeenCalledWith({
+        previous: {
+          windows: [{ limit: 10, durationMs: 1000 }],
+          maxQueueSize: 10000,
+          maxConcurrent: Infinity,
+        },
+        current: {
+          windows: [{ limit: 20, durationMs: 1000 }],
+          maxQueueSize: 10000,
+          maxConcurrent: Infinity,
+        },
+      });
+    });
+
+    it("should apply maxPerSecond and maxPerMinute to the matching windows", async () => {
+      await rateLimiter.updateOptions({ maxPerSecond: 5 });
+
+      let status = await rateLimiter.getStatus();
+      expect(status.windows.map((window) => window.limit)).toEqual([5, 10]);
+
+      await rateLimiter.updateOptions({ maxPerMinute: 50 });
+      status = await rateLimiter.getStatus();
+      expect(status.windows.map((window) => window.limit)).toEqual([5, 50]);
+    });
+
+    it("should reject invalid options and keep the current limits", async () => {
+      const reconfigured = jest.fn();
+      rateLimiter.on("reconfigured", reconfigured);
+
+      await expect(
+        rateLimiter.updateOptions({ maxPerSecond: 20 })
+      ).rejects.toThrow(InvalidOptionsError);
+      await expect(rateLimiter.updateOptions({ windows: [] })).rejects.toThrow(
+        InvalidOptionsError
+      );
+      await expect(
+        rateLimiter.updateOptions({ maxQueueSize: -1 })
+      ).rejects.toThrow(InvalidOptionsError);
+      await expect(
+        rateLimiter.updateOptions({ maxConcurrent: 0 })
+      ).rejects.toThrow(InvalidOptionsError);
+
+      const status = await rateLimiter.getStatus();
+      expect(status.windows.map((window) => window.limit)).toEqual([2, 10]);
+      expect(reconfigured).not.toHaveBeenCalled();
+    });
+
+    it("should keep queued requests beyond a smaller maxQueueSize and reject new ones", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 1, durationMs: 1000 }],
+        maxQueueSize: 5,
+      });
+      const results = Promise.all(
+        [1, 2, 3, 4].map(() => limiter.addRequest(mockRequest))
+      );
+      await jest.advanceTimersByTimeAsync(0);
+
+      await limiter.updateOptions({ maxQueueSize: 1 });
+
+      expect((await limiter.getStatus()).queueSize).toBe(3);
+      await expect(limiter.addRequest(mockRequest)).rejects.toThrow(
+        QueueFullError
+      );
+      await jest.advanceTimersByTimeAsync(3000);
+      await expect(results).resolves.toHaveLength(4);
+    });
+
+    it("should admit queued requests right away when maxConcurrent grows", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 100, durationMs: 1000 }],
+        maxConcurrent: 1,
+      });
+      const request = jest.fn(() => new Promise<string>(() => undefined));
+      [1, 2, 3].forEach(() => limiter.addRequest(request));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(request).toHaveBeenCalledTimes(1);
+
+      await limiter.updateOptions({ maxConcurrent: 3 });
+      await jest.advanceTimersByTimeAsync(0);
+      expect(request).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  /**
+   * Tests for the policies applied when the queue is full
+   */
+  describe("overflow policies", () => {
+    const windows = [{ limit: 1, durationMs: 1000 }];
+
+    it("should count requests added in the same tick against maxQueueSize", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows,
+        maxQueueSize: 2,
+      });
+      await limiter.tryAcquire();
+
+      const results = Promise.allSettled(
+        Array.from({ length: 10 }, () => limiter.addRequest(mockRequest))
+      );
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect((await limiter.getStatus()).queueSize).toBe(2);
+      await jest.advanceTimersByTimeAsync(2000);
+      const rejected = (await results).filter(
+        (result) => result.status === "rejected"
+      );
+      expect(rejected).toHaveLength(8);
+      expect(rejected[0]).toMatchObject({ reason: expect.any(QueueFullError) });
+    });
+
+    it("should not count requests the limits admit right away", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 100, durationMs: 1000 }],
+        maxQueueSize: 2,
+      });
+      const requests = Array.from({ length: 5 }, (_, i) =>
+        limiter.addRequest(async () => `request ${i}`)
+      );
+      await jest.advanceTimersByTimeAsync(0);
+      await expect(Promise.all(requests)).resolves.toHaveLength(5);
+
+      const unqueued = new ApiRateLimiter<string>({ maxQueueSize: 0 });
+      await expect(unqueued.addRequest(mockRequest)).resolves.toBe("success");
+    });
+
+    it("should apply the drop policies to requests added in the same tick", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows,
+        maxQueueSize: 2,
+        overflow: "drop-oldest",
+      });
+      await limiter.tryAcquire();
+
+      const results = Promise.allSettled(
+        Array.from({ length: 5 }, (_, i) =>
+          limiter.addRequest(async () => `request ${i}`)
+        )
+      );
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(await results).toEqual([
+        { status: "rejected", reason: expect.any(RequestDroppedError) },
+        { status: "rejected", reason: expect.any(RequestDroppedError) },
+        { status: "rejected", reason: expect.any(RequestDroppedError) },
+        { status: "fulfilled", value: "request 3" },
+        { status: "fulfilled", value: "request 4" },
+      ]);
+    });
+
+    it("should drop the request that has waited longest with drop-oldest", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows,
+        maxQueueSize: 2,
+      });
+      const dequeued = jest.fn();
+      limiter.on("dequeued", dequeued);
+      await limiter.tryAcquire();
+
+      const oldest = limiter.addRequest(async () => "oldest");
+      await jest.advanceTimersByTimeAsync(100);
+      const older = limiter.addRequest(async () => "older");
+      await jest.advanceTimersByTimeAsync(0);
+      const newest = limiter.addRequest(async () => "newest", {
+        overflow: "drop-oldest",
+      });
+      await expect(oldest).rejects.toThrow(RequestDroppedError);
+      expect(dequeued).toHaveBeenCalledWith({
+        lane: "default",
+        attempt: 1,
+        reason: "dropped",
+        waitMs: 100,
+      });
+
+      await jest.advanceTimersByTimeAsync(2000);
+      await expect(older).resolves.toBe("older");
+      await expect(newest).resolves.toBe("newest");
+    });
+
+    it("should drop the newest request of the lowest lower lane with drop-lowest-priority", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows,
+        lanes: [{ name: "high" }, { name: "normal" }, { name: "low" }],
+        defaultLane: "low",
+        maxQueueSize: 3,
+        overflow: "drop-lowest-priority",
+      });
+      await limiter.tryAcquire();
+
+      const normal = limiter.addRequest(async () => "normal", {
+        lane: "normal",
+      });
+      const first = limiter.addRequest(async () => "first");
+      const second = limiter.addRequest(async () => "second");
+      await jest.advanceTimersByTimeAsync(0);
+      const high = limiter.addRequest(async () => "high", { lane: "high" });
+
+      const [secondResult] = await Promise.allSettled([second]);
+      expect(secondResult).toMatchObject({
+        status: "rejected",
+        reason: expect.any(RequestDroppedError),
+      });
+      await jest.advanceTimersByTimeAsync(0);
+      await expect(limiter.addRequest(async () => "low")).rejects.toThrow(
+        QueueFullError
+      );
+
+      await jest.advanceTimersByTimeAsync(3000);
+      await expect(Promise.all([high, normal, first])).resolves.toEqual([
+        "high",
+        "normal",
+        "first",
+      ]);
+    });
+
+    it("should hold callers with wait-for-space until a request leaves the queue", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows,
+        maxQueueSize: 1,
+        overflow: "wait-for-space",
+      });
+      await limiter.tryAcquire();
+
+      const first = limiter.addRequest(async () => "first");
+      await jest.advanceTimersByTimeAsync(0);
+      const second = limiter.addRequest(async () => "second");
+      const third = limiter.addRequest(async () => "third");
+      await jest.advanceTimersByTimeAsync(0);
+      expect((await limiter.getStatus()).queueSize).toBe(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await expect(first).resolves.toBe("first");
+      expect((await limiter.getStatus()).queueSize).toBe(1);
+
+      await jest.advanceTimersByTimeAsync(2000);
+      await expect(second).resolves.toBe("second");
+      await expect(third).resolves.toBe("third");
+    });
+
+    it("should reject waiting callers after overflowWaitMs, on abort and on shutdown", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows,
+        maxQueueSize: 1,
+        overflow: "wait-for-space",
+        overflowWaitMs: 500,
+      });
+      const rejected = jest.fn();
+      limiter.on("rejected", rejected);
+      await limiter.tryAcquire();
+      const first = limiter.addRequest(async () => "first");
+      await jest.advanceTimersByTimeAsync(0);
+
+      const controller = new AbortController();
+      const results = Promise.allSettled([
+        limiter.addRequest(async () => "timed out"),
+        limiter.addRequest(async () => "aborted", {
+          signal: controller.signal,
+        }),
+      ]);
+      controller.abort();
+      await jest.advanceTimersByTimeAsync(500);
+      const [timedOut, aborted] = await results;
+      expect(timedOut).toMatchObject({
+        status: "rejected",
+        reason: expect.any(QueueFullError),
+      });
+      expect(aborted).toMatchObject({
+        status: "rejected",
+        reason: expect.any(RequestAbortedError),
+      });
+      expect(rejected).toHaveBeenCalledTimes(1);
+
+      const [, shutDown] = await Promise.allSettled([
+        first,
+        limiter.addRequest(async () => "shut down"),
+        limiter.shutdown({ mode: "reject" }),
+      ]);
+      expect(shutDown).toMatchObject({
+        status: "rejected",
+        reason: expect.any(LimiterShutdownError),
+      });
+    });
+
+    it("should let a custom handler settle the request or pick a policy", async () => {
+      const handler = jest
+        .fn()
+        .mockReturnValueOnce(Promise.resolve("spilled"))
+        .mockReturnValueOnce("reject-new");
+      const limiter = new ApiRateLimiter<string>({
+        windows,
+        maxQueueSize: 1,
+        overflow: handler,
+      });
+      await limiter.tryAcquire();
+      limiter.addRequest(async () => "first");
+      await jest.advanceTimersByTimeAsync(0);
+
+      const request = async () => "second";
+      await expect(limiter.addRequest(request, { cost: 2 })).resolves.toBe(
+        "spilled"
+      );
+      expect(handler).toHaveBeenCalledWith({
+        request,
+        lane: "default",
+        cost: 2,
+        queueSize: 1,
+      });
+      await expect(limiter.addRequest(request)).rejects.toThrow(QueueFullError);
+    });
+
+    it("should throw InvalidOptionsError for an unknown policy or a negative overflowWaitMs", async () => {
+      expect(
+        () => new ApiRateLimiter({ overflow: "drop-newest" as any })
+      ).toThrow(InvalidOptionsError);
+      expect(() => new ApiRateLimiter({ overflowWaitMs: -1 })).toThrow(
+        InvalidOptionsError
+      );
+      await expect(
+        rateLimiter.addRequest(mockRequest, { overflow: "drop-newest" as any })
+      ).rejects.toThrow(InvalidOptionsError);
+
+      const limiter = new ApiRateLimiter<string>({
+        windows,
+        maxQueueSize: 0,
+        overflow: () => "drop-newest" as any,
+      });
+      await limiter.tryAcquire();
+      await expect(limiter.addRequest(mockRequest)).rejects.toThrow(
+        InvalidOptionsError
+      );
+    });
+  });
+
+  /**
+   * Tests for parent and child limiters
+   */
+  describe("hierarchical limiters", () => {
+    const org = () =>
+      new ApiRateLimiter<string>({
+        windows: [{ limit: 10, durationMs: 1000 }],
+        strategy: "sliding-window-log",
+      });
+    const service = (
+      parent: ApiRateLimiter<string>,
+      name: string,
+      share?: { reserved?: number; max?: number }
+    ) =>
+      new ApiRateLimiter<string>({
+        windows: [{ limit: 100, durationMs: 1000 }],
+        parent,
+        name,
+        share,
+      });
+
+    it("should admit requests of children only within the windows of the parent", async () => {
+      const parent = org();
+      const a = service(parent, "a");
+      const b = service(parent, "b");
+      const admittedAt: number[] = [];
+      const request = async () => {
+        admittedAt.push(Date.now());
+        return "ok";
+      };
+      const start = Date.now();
+
+      const results = Promise.all([
+        ...Array.from({ length: 6 }, () => a.addRequest(request)),
+        ...Array.from({ length: 6 }, () => b.addRequest(request)),
+      ]);
+      await jest.advanceTimersByTimeAsync(0);
+      expect(admittedAt).toHaveLength(10);
+      const status = await a.getStatus();
+      expect(status.windows[0].remaining).toBe(94);
+      expect(status.availableRequests).toBe(0);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await results;
+      expect(admittedAt.map((at) => at - start)).toEqual([
+        ...new Array(10).fill(0),
+        1000,
+        1000,
+      ]);
+    });
+
+    it("should take tokens from every ancestor or from none of them", async () => {
+      const root = org();
+      const parent = service(root, "parent");
+      const child = new ApiRateLimiter<string>({
+        windows: [{ limit: 5, durationMs: 1000 }],
+        parent,
+        name: "child",
+      });
+      await root.tryAcquire(10);
+
+      await expect(child.tryAcquire()).resolves.toEqual({
+        allowed: false,
+        retryAfterMs: 1000,
+        limit: 10,
+        remaining: 0,
+        resetMs: 1000,
+      });
+      expect((await parent.getStatus()).windows[0].remaining).toBe(100);
+
+      const reservation = await child.reserve(2);
+      expect(reservation.delayMs).toBe(1000);
+      expect((await parent.getStatus()).windows[0].remaining).toBe(98);
+      await reservation.cancel();
+      expect((await parent.getStatus()).windows[0].remaining).toBe(100);
+    });
+
+    it("should hold reserved shares back from siblings and the parent", async () => {
+      const parent = org();
+      const a = service(parent, "a", { reserved: 0.4 });
+      const b = service(parent, "b");
+
+      const results = await Promise.all(
+        Array.from({ length: 10 }, () => b.tryAcquire())
+      );
+      expect(results.filter(({ allowed }) => allowed)).toHaveLength(6);
+      await expect(parent.tryAcquire()).resolves.toMatchObject({
+        allowed: false,
+      });
+
+      const reserved = await Promise.all(
+        Array.from({ length: 4 }, () => a.tryAcquire())
+      );
+      expect(reserved.every(({ allowed }) => allowed)).toBe(true);
+    });
+
+    it("should let a child borrow only up to its maximum share", async () => {
+      const parent = org();
+      const a = service(parent, "a", { max: 0.3 });
+      const b = service(parent, "b");
+      const run = async (limiter: ApiRateLimiter<string>, count: number) =>
+        (
+          await Promise.all(
+            Array.from({ length: count }, () => limiter.tryAcquire())
+          )
+        ).filter(({ allowed }) => allowed).length;
+
+      await expect(run(a, 5)).resolves.toBe(3);
+      await expect(run(b, 10)).resolves.toBe(7);
+    });
+
+    it("should report the status of the whole tree", async () => {
+      const parent = org();
+      const a = service(parent, "a", { reserved: 0.5 });
+      service(a, "a1");
+      service(parent, "b", { max: 0.5 });
+
+      const status = await parent.getStatus();
+      expect(status.name).toBe("default");
+      expect(status.availableRequests).toBe(5);
+      expect(
+        status.children.map(({ name, share, availableRequests, children }) => ({
+          name,
+          share,
+          availableRequests,
+          children: children.map((child) => child.name),
+        }))
+      ).toEqual([
+        {
+          name: "a",
+          share: { reserved: 0.5, max: 1 },
+          availableRequests: 10,
+          children: ["a1"],
+        },
+        {
+          name: "b",
+          share: { reserved: 0, max: 0.5 },
+          availableRequests: 5,
+          children: [],
+        },
+      ]);
+    });
+
+    it("should release the reservation of a child once it shuts down", async () => {
+      const parent = org();
+      const a = service(parent, "a", { reserved: 1 });
+      expect((await parent.getStatus()).availableRequests).toBe(0);
+
+      await a.shutdown();
+
+      const status = await parent.getStatus();
+      expect(status.children).toEqual([]);
+      expect(status.availableRequests).toBe(10);
+    });
+
+    it("should throw InvalidOptionsError for invalid shares and duplicate names", () => {
+      const parent = org();
+      service(parent, "a", { reserved: 0.6 });
+
+      expect(() => service(parent, "a")).toThrow(InvalidOptionsError);
+      expect(() => service(parent, "b", { reserved: 0.5 })).toThrow(
+        InvalidOptionsError
+      );
+      expect(() => service(parent, "c", { reserved: 0.2, max: 0.1 })).toThrow(
+        InvalidOptionsError
+      );
+      expect(() => service(parent, "d", { max: 0 })).toThrow(
+        InvalidOptionsError
+      );
+      expect(() => new ApiRateLimiter({ share: { reserved: 0.1 } })).toThrow(
+        InvalidOptionsError
+      );
+      expect(
+        () => new ApiRateLimiter({ parent: {} as ApiRateLimiter<string> })
+      ).toThrow(InvalidOptionsError);
+    });
+  });
+
+  /**
+   * Tests for the circuit breaker
+   */
+  describe("circuit breaker", () => {
+    const failing = () => Promise.reject(new Error("upstream down"));
+    const create = (circuitBreaker: object, options: object = {}) =>
+      new ApiRateLimiter<string>(
+        {
+          windows: [{ limit: 10, durationMs: 1000 }],
+          maxConcurrent: 1,
+          circuitBreaker,
+          ...options,
+        },
+        jest.fn()
+      );
+
+    it("should open after consecutive failures and fail queued and new requests fast", async () => {
+      const limiter = create({ consecutiveFailures: 2, openMs: 5000 });
+      const dequeued = jest.fn();
+      limiter.on("dequeued", dequeued);
+
+      const results = Promise.allSettled([
+        limiter.addRequest(failing),
+        limiter.addRequest(failing),
+        limiter.addRequest(mockRequest),
+      ]);
+      await jest.advanceTimersByTimeAsync(0);
+      const [, , queued] = await results;
+
+      expect(queued).toMatchObject({
+        status: "rejected",
+        reason: expect.any(CircuitOpenError),
+      });
+      expect(dequeued).toHaveBeenLastCalledWith(
+        expect.objectContaining({ reason: "circuit-open" })
+      );
+      await expect(limiter.addRequest(mockRequest)).rejects.toMatchObject({
+        name: "CircuitOpenError",
+        retryInMs: 5000,
+      });
+      expect(mockRequest).not.toHaveBeenCalled();
+
+      const status = await limiter.getStatus();
+      expect(status.circuit).toEqual({
+        state: "open",
+        consecutiveFailures: 2,
+        failureRate: 1,
+        retryInMs: 5000,
+      });
+      expect(status.windows[0].remaining).toBe(8);
+    });
+
+    it("should open once the failure rate of the recent attempts reaches the threshold", async () => {
+      const limiter = create({
+        consecutiveFailures: 10,
+        failureRate: 0.5,
+        windowSize: 4,
+      });
+
+      await Promise.allSettled([
+        limiter.addRequest(failing),
+        limiter.addRequest(mockRequest),
+        limiter.addRequest(failing),
+      ]);
+      expect((await limiter.getStatus()).circuit?.state).toBe("closed");
+
+      await limiter.addRequest(mockRequest);
+      expect((await limiter.getStatus()).circuit).toMatchObject({
+        state: "open",
+        consecutiveFailures: 0,
+        failureRate: 0.5,
+      });
+    });
+
+    it("should let one probe through at a time while half-open and close after it succeeds", async () => {
+      const limiter = create(
+        { consecutiveFailures: 1, openMs: 1000 },
+        { maxConcurrent: Infinity }
+      );
+      const throttled = jest.fn();
+      limiter.on("throttled", throttled);
+      await expect(limiter.addRequest(failing)).rejects.toThrow(
+        "upstream down"
+      );
+
+      await jest.advanceTimersByTimeAsync(1000);
+      let finishProbe: (value: string) => void = () => undefined;
+      const probe = limiter.addRequest(
+        () => new Promise<string>((resolve) => (finishProbe = resolve))
+      );
+      const next = limiter.addRequest(mockRequest);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(mockRequest).not.toHaveBeenCalled();
+      expect((await limiter.getStatus()).circuit?.state).toBe("half-open");
+      expect(throttled).toHaveBeenLastCalledWith({
+        reason: "circuit",
+        queueSize: 1,
+        retryInMs: null,
+      });
+
+      finishProbe("probe");
+      await jest.advanceTimersByTimeAsync(0);
+      await expect(probe).resolves.toBe("probe");
+      await expect(next).resolves.toBe("success");
+      expect((await limiter.getStatus()).circuit?.state).toBe("closed");
+    });
+
+    it("should open again when a probe fails", async () => {
+      const limiter = create({ consecutiveFailures: 1, openMs: 1000 });
+      await expect(limiter.addRequest(failing)).rejects.toThrow();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      const [probe, queued] = await Promise.allSettled([
+        limiter.addRequest(failing),
+        limiter.addRequest(mockRequest),
+      ]);
+
+      expect(probe).toMatchObject({ status: "rejected" });
+      expect(queued).toMatchObject({
+        status: "rejected",
+        reason: expect.any(CircuitOpenError),
+      });
+      expect((await limiter.getStatus()).circuit).toMatchObject({
+        state: "open",
+        retryInMs: 1000,
+      });
+    });
+
+    it("should fail pending retries once the circuit opens", async () => {
+      const limiter = create(
+        { consecutiveFailures: 1 },
+        { retry: { maxAttempts: 3, baseDelayMs: 100, jitter: "none" } }
+      );
+
+      const [result] = await Promise.allSettled([
+        limiter.addRequest(failing),
+        jest.advanceTimersByTimeAsync(100),
+      ]);
+
+      expect(result).toMatchObject({
+        status: "rejected",
+        reason: expect.any(RetryFailedError),
+      });
+      const error = (result as PromiseRejectedResult)
+        .reason as RetryFailedError;
+      expect(error.attempts).toEqual([
+        expect.objectContaining({
+          attempt: 1,
+          error: new Error("upstream down"),
+          delayMs: 100,
+        }),
+      ]);
+      expect(error.lastError).toBeInstanceOf(CircuitOpenError);
+    });
+
+    it("should only count errors that isFailure accepts", async () => {
+      const limiter = create({
+        consecutiveFailures: 1,
+        isFailure: (error: unknown) => !(error instanceof TypeError),
+      });
+
+      await expect(
+        limiter.addRequest(() => Promise.reject(new TypeError("bad input")))
+      ).rejects.toThrow(TypeError);
+      expect((await limiter.getStatus()).circuit?.state).toBe("closed");
+      expect((await rateLimiter.getStatus()).circuit).toBeNull();
+    });
+
+    it("should throw InvalidOptionsError for out of range thresholds", () => {
+      expect(() => create({ consecutiveFailures: 0 })).toThrow(
+        InvalidOptionsError
+      );
+      expect(() => create({ failureRate: 1.5 })).toThrow(InvalidOptionsError);
+      expect(() => create({ windowSize: 2.5 })).toThrow(InvalidOptionsError);
+      expect(() => create({ openMs: -1 })).toThrow(InvalidOptionsError);
+      expect(() => create({ halfOpenProbes: 0 })).toThrow(InvalidOptionsError);
+    });
+  });
+
+  /**
+   * Tests for pausing, draining and shutting down
+   */
+  describe("pause, drain and shutdown", () => {
+    it("should hold queued requests while paused", async () => {
+      const limiter = new ApiRateLimiter<string>({});
+      limiter.pause();
+
+      const result = limiter.addRequest(mockRequest);
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(mockRequest).not.toHaveBeenCalled();
+      expect((await limiter.getStatus()).state).toBe("paused");
+      expect(jest.getTimerCount()).toBe(0);
+
+      limiter.resume();
+      await expect(result).resolves.toBe("success");
+      expect((await limiter.getStatus()).state).toBe("running");
+    });
+
+    it("should resolve drain once queued and in-flight requests settled", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 1, durationMs: 1000 }],
+      });
+      const drained = jest.fn();
+
+      limiter.addRequest(mockRequest);
+      limiter.addRequest(mockRequest);
+      limiter.drain().then(drained);
+      await jest.advanceTimersByTimeAsync(0);
+      expect(drained).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(drained).toHaveBeenCalled();
+      expect(mockRequest).toHaveBeenCalledTimes(2);
+      await expect(limiter.drain()).resolves.toBeUndefined();
+    });
+
+    it("should process queued requests before shutting down in drain mode", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 1, durationMs: 1000 }],
+      });
+      limiter.pause();
+      const results = [
+        limiter.addRequest(mockRequest),
+        limiter.addRequest(mockRequest),
+      ];
+
+      const shutdown = limiter.shutdown();
+      await expect(limiter.addRequest(mockRequest)).rejects.toBeInstanceOf(
+        LimiterShutdownError
+      );
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await expect(Promise.all(results)).resolves.toEqual([
+        "success",
+        "success",
+      ]);
+      await shutdown;
+      expect((await limiter.getStatus()).state).toBe("shut-down");
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it("should reject queued requests and pending retries in reject mode", async () => {
+      const limiter = new ApiRateLimiter<string>(
+        {
+          windows: [{ limit: 1, durationMs: 1000 }],
+          retry: { baseDelayMs: 100, jitter: "none" },
+        },
+        jest.fn()
+      );
+      const retried = limiter.addRequest(
+        jest.fn().mockRejectedValue(new Error("boom"))
+      );
+      const queued = limiter.addRequest(mockRequest);
+      retried.catch(() => {});
+      queued.catch(() => {});
+      await jest.advanceTimersByTimeAsync(0);
+
+      await limiter.shutdown({ mode: "reject" });
+
+      await expect(retried).rejects.toBeInstanceOf(LimiterShutdownError);
+      await expect(queued).rejects.toBeInstanceOf(LimiterShutdownError);
+      expect(mockRequest).not.toHaveBeenCalled();
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it("should wait for requests in flight in reject mode", async () => {
+      const limiter = new ApiRateLimiter<string>({});
+      let finish!: (value: string) => void;
+      const inFlight = limiter.addRequest(
+        () => new Promise((resolve) => (finish = resolve))
+      );
+      await jest.advanceTimersByTimeAsync(0);
+
+      const shutdown = jest.fn();
+      limiter.shutdown({ mode: "reject" }).then(shutdown);
+      await jest.advanceTimersByTimeAsync(0);
+      expect(shutdown).not.toHaveBeenCalled();
+
+      finish("done");
+      await expect(inFlight).resolves.toBe("done");
+      await jest.advanceTimersByTimeAsync(0);
+      expect(shutdown).toHaveBeenCalled();
+    });
+  });
+
+  /**
+   * Tests for status reporting functionality
+   */
+  describe("getStatus", () => {
+    it("should return correct queue size and available requests", async () => {
+      await rateLimiter.addRequest(mockRequest);
+      await rateLimiter.addRequest(mockRequest);
+
+      const third = rateLimiter.addRequest(mockRequest);
+      await jest.advanceTimersByTimeAsync(1000);
+      await third;
+
+      const status = await rateLimiter.getStatus();
+      expect(status.queueSize).toBe(0);
+      expect(status.availableRequests).toBe(1);
+    });
+
+    it("should still report the deprecated per-second and per-minute counters", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        maxPerSecond: 2,
+        maxPerMinute: 5,
+      });
+      await limiter.tryAcquire();
+
+      await expect(limiter.getStatus()).resolves.toMatchObject({
+        mpsCounter: 1,
+        mpmCounter: 4,
+      });
+      const custom = new ApiRateLimiter<string>({
+        windows: [
+          { limit: 3, durationMs: 500 },
+          { limit: 50, durationMs: 3600000 },
+        ],
+      });
+      await expect(custom.getStatus()).resolves.toMatchObject({
+        mpsCounter: 3,
+        mpmCounter: 50,
+      });
+    });
+  });
+
+  /**
+   * Tests for resource cleanup and management
+   */
+  describe("cleanup and resource management", () => {
+    it("should clear timer when queue is empty and counters are reset", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        maxPerSecond: 2,
+        maxPerMinute: 10,
+      });
+
+      await limiter.addRequest(mockRequest);
+      jest.advanceTimersByTime(60000);
+
+      // @ts-ignore
+      expect(limiter.timer).toBeNull();
+    });
+
+    it("should not leak memory when processing many requests", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        maxPerSecond: 5,
+        maxPerMinute: 100,
+        maxQueueSize: 1000,
+      });
+
+      const requests = Array(100)
+        .fill(null)
+        .map(() => limiter.addRequest(mockRequest));
+
+      await jest.advanceTimersByTimeAsync(60000);
+      await Promise.all(requests);
+
+      // @ts-ignore - private 속성 접근을 위해
+      expect(limiter.queue.length).toBe(0);
+    });
+  });
+
+  /**
+   * Tests for concurrent request handling
+   */
+  describe("concurrent request handling", () => {
+    it("should handle multiple concurrent requests correctly", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        maxPerSecond: 2,
+        maxPerMinute: 10,
+      });
+
+      const concurrentMockRequest = jest.fn(() => Promise.resolve("success"));
+
+      const results = Promise.allSettled([
+        limiter.addRequest(concurrentMockRequest),
+        limiter.addRequest(concurrentMockRequest),
+        limiter.addRequest(concurrentMockRequest),
+      ]);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await Promise.resolve();
+
+      const settledResults = await results;
+
+      expect(settledResults[0].status).toBe("fulfilled");
+      expect(settledResults[1].status).toBe("fulfilled");
+      expect(settledResults[2].status).toBe("fulfilled");
+    });
+  });
+
+  /**
+   * Tests for various error scenarios
+   */
+  describe("error scenarios", () => {
+    it("should maintain rate limits even after errors", async () => {
+      const errorRequest = jest.fn().mockRejectedValue(new Error("API Error"));
+      const limiter = new ApiRateLimiter<string>({
+        maxPerSecond: 1,
+        maxPerMinute: 5,
+      });
+
+      await expect(limiter.addRequest(errorRequest)).rejects.toThrow();
+
+      const status = await limiter.getStatus();
+      expect(status.availableRequests).toBe(0);
+
+      jest.advanceTimersByTime(500);
+      const statusAfterHalfSecond = await limiter.getStatus();
+      expect(statusAfterHalfSecond.availableRequests).toBe(0);
+
+      jest.advanceTimersByTime(500);
+      const statusAfterWait = await limiter.getStatus();
+      expect(statusAfterWait.availableRequests).toBe(1);
+    });
+  });
+
+  /**
+   * Tests for edge cases and boundary conditions
+   */
+  describe("edge cases", () => {
+    it("should handle minimum valid configuration", () => {
+      expect(() => {
+        new ApiRateLimiter({
+          maxPerSecond: 1,
+          maxPerMinute: 1,
+          maxQueueSize: 1,
+        });
+      }).not.toThrow();
+    });
+
+    it("should handle zero request scenario correctly", async () => {
+      expect(() => {
+        new ApiRateLimiter<string>({
+          maxPerSecond: 0,
+          maxPerMinute: 0,
+        });
+      }).toThrow(InvalidOptionsError);
+    });
+  });
+
+  /**
+   * Tests for rate limit counter recovery behavior
+   */
+  describe("counter recovery", () => {
+    it("should recover request capacity over time", async () => {
+      const limiter = new ApiRateLimiter<string>({
+        maxPerSecond: 2,
+        maxPerMinute: 4,
+      });
+
+      await limiter.addRequest(mockRequest);
+      await limiter.addRequest(mockRequest);
+
+      const initialStatus = await limiter.getStatus();
+      expect(initialStatus.availableRequests).toBe(0);
 
       jest.advanceTimersByTime(1000);
       const statusAfterSecond = await limiter.getStatus();
-      expect(statusAfterSecond.availableRequests).toBe(1);
+      expect(statusAfterSecond.availableRequests).toBe(2);
+      expect(statusAfterSecond.windows[1].remaining).toBe(2);
 
       jest.advanceTimersByTime(60000);
       const statusAfterMinute = await limiter.getStatus();
-      expect(statusAfterMinute.availableRequests).toBe(1);
+      expect(statusAfterMinute.availableRequests).toBe(2);
+      expect(statusAfterMinute.windows[1].remaining).toBe(4);
     });
   });
 
@@ -379,7 +2415,7 @@ describe("ApiRateLimiter", () => {
       jest.advanceTimersByTime(30000);
 
       const finalStatus = await limiter.getStatus();
-      expect(finalStatus.mpmCounter).toBeCloseTo(2, 0);
+      expect(finalStatus.windows[1].remaining).toBe(4);
     });
   });
 });
@@ -0,0 +1,137 @@
+import LaneQueue from "../src/lane-queue";
+
+/**
+ * Test suite for LaneQueue
+ * Tests lane ordering, weighted fair sharing and status reporting
+ */
+describe("LaneQueue", () => {
+  const fill = (queue: LaneQueue<string>, lane: string, count: number) => {
+    for (let i = 0; i < count; i++) {
+      queue.push(lane, `${lane}${i}`);
+    }
+  };
+
+  const drain = (queue: LaneQueue<string>) => {
+    const items: string[] = [];
+    while (!queue.isEmpty()) {
+      items.push(queue.shift()!);
+    }
+    return items;
+  };
+
+  it("should keep FIFO order within a lane", () => {
+    const queue = new LaneQueue<string>([{ name: "default", weight: 1 }]);
+    fill(queue, "default", 3);
+    expect(drain(queue)).toEqual(["default0", "default1", "default2"]);
+    expect(queue.shift()).toBeUndefined();
+  });
+
+  it("should peek at both ends of a lane without removing items", () => {
+    const queue = new LaneQueue<string>([
+      { name: "high", weight: 1 },
+      { name: "low", weight: 1 },
+    ]);
+    fill(queue, "low", 3);
+
+    expect(queue.front("low")).toBe("low0");
+    expect(queue.back("low")).toBe("low2");
+    expect(queue.front("high")).toBeUndefined();
+    expect(queue.back("missing")).toBeUndefined();
+    expect(queue.length).toBe(3);
+  });
+
+  it("should serve the higher lane first and share by weight", () => {
+    const queue = new LaneQueue<string>([
+      { name: "high", weight: 3 },
+      { name: "low", weight: 1 },
+    ]);
+    fill(queue, "low", 3);
+    fill(queue, "high", 6);
+
+    const order = drain(queue).map((item) => item.replace(/\d+$/, ""));
+    expect(order[0]).toBe("high");
+    expect(order.slice(0, 4).filter((lane) => lane === "low")).toHaveLength(1);
+    expect(order.slice(0, 8).filter((lane) => lane === "low")).toHaveLength(2);
+  });
+
+  it("should not starve a low lane while a high lane stays busy", () => {
+    const queue = new LaneQueue<string>([
+      { name: "high", weight: 100 },
+      { name: "low", weight: 1 },
+    ]);
+    queue.push("low", "low0");
+
+    let served = 0;
+    while (queue.length > 0 && served < 1000) {
+      queue.push("high", "high");
+      if (queue.shift() === "low0") {
+        break;
+      }
+      served++;
+    }
+    expect(served).toBeLessThanOrEqual(101);
+  });
+
+  it("should preview the next items in shift order without removing them", () => {
+    const queue = new LaneQueue<string>([
+      { name: "high", weight: 2 },
+      { name: "low", weight: 1 },
+    ]);
+    fill(queue, "low", 3);
+    fill(queue, "high", 3);
+    queue.shift();
+
+    const upcoming = queue.upcoming(10);
+    expect(upcoming).toHaveLength(5);
+    expect(queue.length).toBe(5);
+    expect(drain(queue)).toEqual(upcoming);
+  });
+
+  it("should remove a specific item from anywhere in its lane", () => {
+    const queue = new LaneQueue<string>([{ name: "default", weight: 1 }]);
+    fill(queue, "default", 3);
+
+    expect(queue.remove("default", "default1")).toBe(true);
+    expect(queue.remove("default", "default1")).toBe(false);
+    expect(queue.remove("other", "default0")).toBe(false);
+    expect(queue.length).toBe(2);
+    expect(drain(queue)).toEqual(["default0", "default2"]);
+  });
+
+  it("should skip removed items when peeking, previewing and shifting", () => {
+    const queue = new LaneQueue<string>([
+      { name: "high", weight: 2 },
+      { name: "low", weight: 1 },
+    ]);
+    fill(queue, "high", 4);
+    fill(queue, "low", 2);
+
+    queue.remove("high", "high0");
+    queue.remove("high", "high2");
+    queue.remove("low", "low1");
+
+    expect(queue.front("high")).toBe("high1");
+    expect(queue.back("high")).toBe("high3");
+    expect(queue.back("low")).toBe("low0");
+    expect(queue.length).toBe(3);
+    expect(queue.status().map(({ queueSize }) => queueSize)).toEqual([2, 1]);
+    expect(queue.upcoming(5)).toEqual(["high1", "low0", "high3"]);
+    expect(drain(queue)).toEqual(["high1", "low0", "high3"]);
+    expect(queue.isEmpty()).toBe(true);
+  });
+
+  it("should report the depth of every lane", () => {
+    const queue = new LaneQueue<string>([
+      { name: "high", weight: 2 },
+      { name: "low", weight: 1 },
+    ]);
+    fill(queue, "low", 2);
+    expect(queue.length).toBe(2);
+    expect(queue.has("high")).toBe(true);
+    expect(queue.has("other")).toBe(false);
+    expect(queue.status()).toEqual([
+      { name: "high", weight: 2, queueSize: 0 },
+      { name: "low", weight: 1, queueSize: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+import LimiterRegistry from "../src/limiter-registry";
+import { VirtualClock } from "../src/clock";
+import { InvalidOptionsError } from "../src/errors";
+
+/**
+ * Test suite for LimiterRegistry
+ * Tests lazy per-key limiters, overrides, idle eviction and the global limit
+ */
+describe("LimiterRegistry", () => {
+  const mockRequest = jest.fn().mockResolvedValue("success");
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockRequest.mockClear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should throw InvalidOptionsError for invalid eviction options", () => {
+    expect(() => new LimiterRegistry({ template: {}, idleTtlMs: 0 })).toThrow(
+      InvalidOptionsError
+    );
+    expect(() => new LimiterRegistry({ template: {}, maxKeys: 1.5 })).toThrow(
+      InvalidOptionsError
+    );
+  });
+
+  it("should create one limiter per key with the key's overrides", async () => {
+    const registry = new LimiterRegistry<string>({
+      template: { windows: [{ limit: 1, durationMs: 1000 }] },
+      overrides: { premium: { windows: [{ limit: 5, durationMs: 1000 }] } },
+    });
+
+    expect(registry.get("a")).toBe(registry.get("a"));
+    expect(registry.get("a")).not.toBe(registry.get("b"));
+    expect((await registry.get("premium").getStatus()).windows[0].limit).toBe(
+      5
+    );
+    expect((await registry.get("a").getStatus()).windows[0].limit).toBe(1);
+  });
+
+  it("should limit every key independently", async () => {
+    const registry = new LimiterRegistry<string>({
+      template: { windows: [{ limit: 1, durationMs: 1000 }] },
+    });
+
+    registry.addRequest("a", mockRequest);
+    registry.addRequest("a", mockRequest);
+    registry.addRequest("b", mockRequest);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it("should require a request to pass the global limit as well", async () => {
+    const registry = new LimiterRegistry<string>({
+      template: { windows: [{ limit: 5, durationMs: 1000 }] },
+      global: { windows: [{ limit: 2, durationMs: 1000 }] },
+    });
+
+    const results = ["a", "b", "c"].map((key) =>
+      registry.addRequest(key, mockRequest)
+    );
+    await jest.advanceTimersByTimeAsync(0);
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await expect(Promise.all(results)).resolves.toEqual([
+      "success",
+      "success",
+      "success",
+    ]);
+  });
+
+  it("should take a key's tokens only once the global limit admits the request", async () => {
+    const registry = new LimiterRegistry<string>({
+      template: { windows: [{ limit: 5, durationMs: 1000 }] },
+      global: { windows: [{ limit: 1, durationMs: 1000 }] },
+    });
+
+    registry.addRequest("a", mockRequest);
+    registry.addRequest("a", mockRequest);
+    await jest.advanceTimersByTimeAsync(0);
+
+    const status = await registry.get("a").getStatus();
+    expect(status.queueSize).toBe(1);
+    expect(status.windows[0].remaining).toBe(4);
+  });
+
+  it("should recreate a removed key under the global limit", async () => {
+    const registry = new LimiterRegistry<string>({
+      template: {},
+      global: { windows: [{ limit: 1, durationMs: 1000 }] },
+    });
+    const removed = registry.get("a");
+
+    expect(registry.delete("a")).toBe(true);
+    expect(registry.get("a")).not.toBe(removed);
+    await jest.advanceTimersByTimeAsync(0);
+    expect((await removed.getStatus()).state).toBe("shut-down");
+  });
+
+  it("should report a failed request once through the global limit", async () => {
+    const errorHandler = jest.fn();
+    const registry = new LimiterRegistry<string>(
+      {
+        template: { windows: [{ limit: 5, durationMs: 1000 }] },
+        global: { windows: [{ limit: 5, durationMs: 1000 }] },
+      },
+      errorHandler
+    );
+    const error = new Error("boom");
+
+    await expect(
+      registry.addRequest("a", () => Promise.reject(error))
+    ).rejects.toBe(error);
+    expect(errorHandler).toHaveBeenCalledTimes(1);
+    expect(errorHandler).toHaveBeenCalledWith(error);
+  });
+
+  it("should evict keys that stay idle for idleTtlMs", async () => {
+    const registry = new LimiterRegistry<string>({
+      template: {},
+      idleTtlMs: 1000,
+    });
+
+    await registry.addRequest("a", mockRequest);
+    registry.addRequest("b", () => new Promise(() => {}));
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(registry.keys()).toEqual(["b"]);
+    registry.dispose();
+  });
+
+  it("should evict idle keys on the clock of the template", async () => {
+    jest.useRealTimers();
+    const clock = new VirtualClock();
+    const registry = new LimiterRegistry<string>({
+      template: { windows: [{ limit: 1, durationMs: 1000 }], clock },
+      idleTtlMs: 1000,
+    });
+
+    await registry.addRequest("a", mockRequest);
+    await clock.advance(500);
+    expect(registry.keys()).toEqual(["a"]);
+
+    await clock.advance(500);
+    expect(registry.keys()).toEqual([]);
+    registry.dispose();
+  });
+
+  it("should evict the least recently used idle keys beyond maxKeys", async () => {
+    const registry = new LimiterRegistry<string>({
+      template: {},
+      maxKeys: 2,
+    });
+
+    registry.get("a");
+    registry.get("b");
+    registry.get("a");
+    registry.get("c");
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(registry.keys()).toEqual(["a", "c"]);
+  });
+
+  it("should keep idle keys until their windows are full again", async () => {
+    const registry = new LimiterRegistry<string>({
+      template: { windows: [{ limit: 2, durationMs: 60000 }] },
+      idleTtlMs: 50,
+      maxKeys: 1,
+    });
+
+    await registry.get("a").tryAcquire(2);
+    registry.get("b");
+    await jest.advanceTimersByTimeAsync(120);
+    expect(registry.keys()).toEqual(["a"]);
+    expect((await registry.get("a").tryAcquire(2)).allowed).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(registry.keys()).toEqual([]);
+    registry.dispose();
+  });
+
+  it("should not evict keys with pending requests", async () => {
+    const registry = new LimiterRegistry<string>({
+      template: {},
+      maxKeys: 1,
+    });
+
+    registry.addRequest("a", () => new Promise(() => {}));
+    registry.get("b");
+
+    expect(registry.keys()).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,139 @@
+import ApiRateLimiter from "../src/api-rate-limiter";
+import { RateLimiterMetrics } from "../src/metrics";
+import { InvalidOptionsError, QueueFullError } from "../src/errors";
+
+/**
+ * Test suite for RateLimiterMetrics
+ * Tests event-driven counters and histograms, gauges and the exposition formats
+ */
+describe("RateLimiterMetrics", () => {
+  let limiter: ApiRateLimiter<string>;
+  let metrics: RateLimiterMetrics<string>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    limiter = new ApiRateLimiter<string>(
+      { windows: [{ limit: 1, durationMs: 1000 }], maxQueueSize: 1 },
+      jest.fn()
+    );
+    metrics = new RateLimiterMetrics(limiter, {
+      labels: { vendor: "acme" },
+      buckets: [0.1, 1, 5],
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /**
+   * Runs one request that takes 200ms and one that waits a second and fails,
+   * and has a third one rejected by the full queue.
+   */
+  const runRequests = async () => {
+    limiter.addRequest(
+      () => new Promise((resolve) => setTimeout(resolve, 200, "ok"))
+    );
+    await jest.advanceTimersByTimeAsync(0);
+    limiter.addRequest(() => Promise.reject(new Error("boom"))).catch(() => {});
+    await jest.advanceTimersByTimeAsync(0);
+    await expect(limiter.addRequest(jest.fn())).rejects.toBeInstanceOf(
+      QueueFullError
+    );
+    await jest.advanceTimersByTimeAsync(1000);
+  };
+
+  it("should throw InvalidOptionsError for invalid buckets", () => {
+    expect(() => new RateLimiterMetrics(limiter, { buckets: [] })).toThrow(
+      InvalidOptionsError
+    );
+    expect(
+      () => new RateLimiterMetrics(limiter, { buckets: [1, 0.5] })
+    ).toThrow(InvalidOptionsError);
+  });
+
+  it("should count requests and record wait and execution times", async () => {
+    await runRequests();
+    const snapshot = await metrics.snapshot();
+
+    expect(snapshot.counters).toEqual({
+      admitted: { default: 2 },
+      succeeded: { default: 1 },
+      failed: { default: 1 },
+      rejected: { default: 1 },
+    });
+    expect(snapshot.histograms.queueWaitSeconds.default).toEqual({
+      buckets: [
+        { le: 0.1, count: 1 },
+        { le: 1, count: 2 },
+        { le: 5, count: 2 },
+      ],
+      sum: 1,
+      count: 2,
+    });
+    expect(snapshot.histograms.executionSeconds.default.sum).toBeCloseTo(0.2);
+  });
+
+  it("should read gauges from the limiter status", async () => {
+    limiter.addRequest(() => new Promise(() => {}));
+    await jest.advanceTimersByTimeAsync(0);
+    limiter.addRequest(jest.fn());
+    await jest.advanceTimersByTimeAsync(0);
+
+    const { gauges } = await metrics.snapshot();
+    expect(gauges).toEqual({
+      queueDepth: { default: 1 },
+      inFlight: 1,
+      tokensRemaining: { "1000": 0 },
+      tokenLimit: { "1000": 1 },
+    });
+  });
+
+  it("should render the Prometheus text format", async () => {
+    await runRequests();
+    const text = await metrics.toPrometheus();
+
+    expect(text).toContain("# TYPE api_rate_limiter_admitted_total counter");
+    expect(text).toContain(
+      'api_rate_limiter_admitted_total{vendor="acme",lane="default"} 2'
+    );
+    expect(text).toContain(
+      'api_rate_limiter_queue_wait_seconds_bucket{vendor="acme",lane="default",le="0.1"} 1'
+    );
+    expect(text).toContain(
+      'api_rate_limiter_queue_wait_seconds_bucket{vendor="acme",lane="default",le="+Inf"} 2'
+    );
+    expect(text).toContain(
+      'api_rate_limiter_tokens_remaining{vendor="acme",window_ms="1000"} 0'
+    );
+    expect(text).toContain('api_rate_limiter_in_flight{vendor="acme"} 0');
+    expect(text).not.toContain("# EOF");
+    expect(text.endsWith("\n")).toBe(true);
+  });
+
+  it("should render OpenMetrics with counter families and an EOF marker", async () => {
+    await runRequests();
+    const text = await metrics.toOpenMetrics();
+
+    expect(text).toContain("# TYPE api_rate_limiter_admitted counter");
+    expect(text).toContain(
+      'api_rate_limiter_admitted_total{vendor="acme",lane="default"} 2'
+    );
+    expect(text.endsWith("# EOF\n")).toBe(true);
+  });
+
+  it("should escape label values", async () => {
+    const escaped = new RateLimiterMetrics(limiter, {
+      labels: { vendor: 'a"b\\c' },
+    });
+    expect(await escaped.toPrometheus()).toContain(
+      'api_rate_limiter_in_flight{vendor="a\\"b\\\\c"} 0'
+    );
+  });
+
+  it("should stop counting once detached", async () => {
+    metrics.detach();
+    await runRequests();
+    expect((await metrics.snapshot()).counters.admitted).toEqual({});
+  });
+});
@@ -0,0 +1,296 @@
+import { EventEmitter } from "events";
+import ApiRateLimiter from "../src/api-rate-limiter";
+import { VirtualClock } from "../src/clock";
+import LimiterRegistry from "../src/limiter-registry";
+import {
+  fastifyRateLimit,
+  httpRateLimit,
+  keyByHeader,
+  koaRateLimit,
+} from "../src/middleware";
+import { InvalidOptionsError } from "../src/errors";
+
+/**
+ * Test suite for the rate limit middleware
+ * Tests keys, 429 responses, RateLimit headers, waiting and the framework adapters
+ */
+describe("middleware", () => {
+  let limiter: ApiRateLimiter<unknown>;
+
+  /** Creates a fake `http` request from a client IP and headers */
+  const createRequest = (
+    remoteAddress: string,
+    headers: Record<string, string> = {}
+  ) => ({ headers, socket: { remoteAddress } });
+
+  /** Creates a fake `http` response that records what was sent */
+  const createResponse = () => {
+    const response = {
+      statusCode: 200,
+      headers: {} as Record<string, string>,
+      body: undefined as string | undefined,
+      setHeader(name: string, value: string) {
+        response.headers[name] = value;
+      },
+      end(body?: string) {
+        response.body = body;
+      },
+    };
+    return response;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    limiter = new ApiRateLimiter({ windows: [{ limit: 2, durationMs: 1000 }] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should throw InvalidOptionsError for a negative maxWaitMs", () => {
+    expect(() => httpRateLimit({ limiter, maxWaitMs: -1 })).toThrow(
+      InvalidOptionsError
+    );
+  });
+
+  it("should call next with RateLimit headers while tokens remain", async () => {
+    const middleware = httpRateLimit({ limiter });
+    const response = createResponse();
+    const next = jest.fn();
+
+    await expect(
+      middleware(createRequest("10.0.0.1"), response, next)
+    ).resolves.toBe(true);
+    expect(next).toHaveBeenCalledWith();
+    expect(response.headers).toEqual({
+      "RateLimit-Limit": "2",
+      "RateLimit-Remaining": "1",
+      "RateLimit-Reset": "1",
+    });
+  });
+
+  it("should respond with 429 and Retry-After once the limit is reached", async () => {
+    const middleware = httpRateLimit({ limiter, message: "Slow down" });
+    const next = jest.fn();
+    await middleware(createRequest("10.0.0.1"), createResponse(), next);
+    await middleware(createRequest("10.0.0.1"), createResponse(), next);
+
+    const response = createResponse();
+    await expect(
+      middleware(createRequest("10.0.0.1"), response, next)
+    ).resolves.toBe(false);
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(response.statusCode).toBe(429);
+    expect(response.body).toBe("Slow down");
+    expect(response.headers).toMatchObject({
+      "Retry-After": "1",
+      "RateLimit-Remaining": "0",
+    });
+  });
+
+  it("should limit every key of a registry independently", async () => {
+    const registry = new LimiterRegistry({
+      template: { windows: [{ limit: 1, durationMs: 1000 }] },
+    });
+    const middleware = httpRateLimit({
+      limiter: registry,
+      key: keyByHeader("X-Api-Key"),
+    });
+
+    const allowed = await Promise.all(
+      ["a", "a", "b"].map((key) =>
+        middleware(
+          createRequest("10.0.0.1", { "x-api-key": key }),
+          createResponse()
+        )
+      )
+    );
+    expect(allowed).toEqual([true, false, true]);
+    expect(await middleware(createRequest("10.0.0.1"), createResponse())).toBe(
+      true
+    );
+    expect(registry.keys()).toEqual(["a", "b"]);
+  });
+
+  it("should apply the global limit of a registry", async () => {
+    const registry = new LimiterRegistry({
+      template: { windows: [{ limit: 2, durationMs: 1000 }] },
+      global: { windows: [{ limit: 3, durationMs: 1000 }] },
+    });
+    const middleware = httpRateLimit({
+      limiter: registry,
+      key: keyByHeader("X-Api-Key"),
+    });
+
+    const allowed = [];
+    for (const key of ["a", "a", "b", "b"]) {
+      allowed.push(
+        await middleware(
+          createRequest("10.0.0.1", { "x-api-key": key }),
+          createResponse()
+        )
+      );
+    }
+    expect(allowed).toEqual([true, true, true, false]);
+
+    const response = createResponse();
+    await middleware(createRequest("10.0.0.1", { "x-api-key": "c" }), response);
+    expect(response.statusCode).toBe(429);
+    expect(response.headers).toMatchObject({
+      "RateLimit-Limit": "3",
+      "RateLimit-Remaining": "0",
+    });
+  });
+
+  it("should charge the cost of a request", async () => {
+    const middleware = httpRateLimit({ limiter, cost: () => 2 });
+
+    expect(await middleware(createRequest("10.0.0.1"), createResponse())).toBe(
+      true
+    );
+    expect(await middleware(createRequest("10.0.0.1"), createResponse())).toBe(
+      false
+    );
+  });
+
+  it("should wait for tokens up to maxWaitMs instead of rejecting", async () => {
+    const middleware = httpRateLimit({ limiter, maxWaitMs: 500 });
+    await middleware(createRequest("10.0.0.1"), createResponse());
+    await middleware(createRequest("10.0.0.1"), createResponse());
+
+    const waiting = middleware(createRequest("10.0.0.1"), createResponse());
+    await jest.advanceTimersByTimeAsync(499);
+    let settled = false;
+    waiting.then(() => (settled = true));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(settled).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(waiting).resolves.toBe(true);
+  });
+
+  it("should wait for tokens on the limiter's clock", async () => {
+    jest.useRealTimers();
+    const clock = new VirtualClock();
+    const middleware = httpRateLimit({
+      limiter: new ApiRateLimiter({
+        windows: [{ limit: 2, durationMs: 1000 }],
+        clock,
+      }),
+      maxWaitMs: 500,
+    });
+    await middleware(createRequest("10.0.0.1"), createResponse());
+    await middleware(createRequest("10.0.0.1"), createResponse());
+
+    let allowed: boolean | undefined;
+    middleware(createRequest("10.0.0.1"), createResponse()).then(
+      (result) => (allowed = result)
+    );
+    await clock.advance(500);
+    expect(allowed).toBe(true);
+  });
+
+  it("should cancel the reservation when the client disconnects during the wait", async () => {
+    const middleware = httpRateLimit({ limiter, maxWaitMs: 500 });
+    await middleware(createRequest("10.0.0.1"), createResponse());
+    await middleware(createRequest("10.0.0.1"), createResponse());
+
+    const response = Object.assign(new EventEmitter(), createResponse());
+    const waiting = middleware(createRequest("10.0.0.1"), response);
+    await jest.advanceTimersByTimeAsync(100);
+    response.emit("close");
+    await expect(waiting).resolves.toBe(false);
+    expect(jest.getTimerCount()).toBe(0);
+    expect(response.listenerCount("close")).toBe(0);
+
+    await jest.advanceTimersByTimeAsync(400);
+    expect(
+      await httpRateLimit({ limiter })(
+        createRequest("10.0.0.1"),
+        createResponse()
+      )
+    ).toBe(true);
+  });
+
+  it("should reject right away when the wait would exceed maxWaitMs", async () => {
+    const middleware = httpRateLimit({ limiter, maxWaitMs: 500 });
+    await middleware(createRequest("10.0.0.1"), createResponse());
+    await middleware(createRequest("10.0.0.1"), createResponse());
+
+    const response = createResponse();
+    expect(
+      await httpRateLimit({ limiter, maxWaitMs: 500, cost: () => 2 })(
+        createRequest("10.0.0.1"),
+        response
+      )
+    ).toBe(false);
+    expect(response.headers["Retry-After"]).toBe("1");
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it("should omit the RateLimit headers when disabled", async () => {
+    const middleware = httpRateLimit({ limiter, headers: false });
+    await middleware(createRequest("10.0.0.1"), createResponse());
+    await middleware(createRequest("10.0.0.1"), createResponse());
+
+    const response = createResponse();
+    await middleware(createRequest("10.0.0.1"), response);
+    expect(response.headers).toEqual({
+      "Retry-After": "1",
+      "Content-Type": "text/plain; charset=utf-8",
+    });
+  });
+
+  it("should pass errors to next", async () => {
+    await limiter.shutdown();
+    const next = jest.fn();
+
+    await httpRateLimit({ limiter })(
+      createRequest("10.0.0.1"),
+      createResponse(),
+      next
+    );
+    expect(next).toHaveBeenCalledWith(expect.any(Error));
+  });
+
+  it("should set the status and body of a Koa context", async () => {
+    const middleware = koaRateLimit({ limiter, cost: () => 2 });
+    const createContext = () => ({
+      headers: {},
+      ip: "10.0.0.1",
+      status: 404,
+      body: undefined as unknown,
+      set: jest.fn(),
+    });
+    const next = jest.fn().mockResolvedValue(undefined);
+
+    await middleware(createContext(), next);
+    const context = createContext();
+    await middleware(context, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(context.status).toBe(429);
+    expect(context.body).toBe("Too Many Requests");
+    expect(context.set).toHaveBeenCalledWith("Retry-After", "1");
+  });
+
+  it("should send a 429 reply from a Fastify hook", async () => {
+    const hook = fastifyRateLimit({ limiter, cost: () => 2 });
+    const reply = {
+      header: jest.fn(),
+      code: jest.fn(),
+      send: jest.fn(),
+    };
+    reply.code.mockReturnValue(reply);
+    const request = { headers: {}, ip: "10.0.0.1" };
+
+    await hook(request, reply);
+    expect(reply.code).not.toHaveBeenCalled();
+
+    await hook(request, reply);
+    expect(reply.code).toHaveBeenCalledWith(429);
+    expect(reply.send).toHaveBeenCalledWith("Too Many Requests");
+    expect(reply.header).toHaveBeenCalledWith("RateLimit-Limit", "2");
+  });
+});
@@ -0,0 +1,213 @@
+import ApiRateLimiter from "../src/api-rate-limiter";
+import { VirtualClock } from "../src/clock";
+import {
+  createRateLimitedFetch,
+  parseRateLimitHeaders,
+} from "../src/rate-limited-fetch";
+
+/**
+ * Test suite for the rate-limited fetch
+ * Tests vendor header parsing, queueing through the limiter and retried responses
+ */
+describe("rate-limited fetch", () => {
+  const now = 1_700_000_000_000;
+
+  /** Creates a response with a status and headers */
+  const respond = (status: number, headers: Record<string, string> = {}) =>
+    new Response(status === 204 ? null : "body", { status, headers });
+
+  /**
+   * Tests for parsing rate limit headers
+   */
+  describe("parseRateLimitHeaders", () => {
+    it("should return undefined for a response without rate limit signals", () => {
+      expect(parseRateLimitHeaders(respond(200), now)).toBeUndefined();
+    });
+
+    it("should read Retry-After in seconds and as an HTTP date", () => {
+      expect(
+        parseRateLimitHeaders(respond(429, { "Retry-After": "30" }), now)
+      ).toEqual({ limited: true, retryAfterMs: 30000 });
+      expect(
+        parseRateLimitHeaders(
+          respond(503, {
+            "Retry-After": new Date(now + 5000).toUTCString(),
+          }),
+          now
+        )
+      ).toEqual({ retryAfterMs: 5000 });
+    });
+
+    it("should read GitHub's epoch reset and the IETF delta reset", () => {
+      expect(
+        parseRateLimitHeaders(
+          respond(200, {
+            "X-RateLimit-Remaining": "4999",
+            "X-RateLimit-Reset": String(now / 1000 + 60),
+          }),
+          now
+        )
+      ).toEqual({ remaining: 4999, resetAt: now + 60000 });
+      expect(
+        parseRateLimitHeaders(
+          respond(200, { "RateLimit-Remaining": "0", "RateLimit-Reset": "7" }),
+          now
+        )
+      ).toEqual({ remaining: 0, resetAt: now + 7000 });
+    });
+
+    it("should read Shopify's call limit", () => {
+      expect(
+        parseRateLimitHeaders(
+          respond(200, { "X-Shopify-Shop-Api-Call-Limit": "32/40" }),
+          now
+        )
+      ).toEqual({ remaining: 8, resetAt: now + 16000 });
+    });
+
+    it("should flag a Stripe 429 as a rate limit", () => {
+      expect(
+        parseRateLimitHeaders(
+          respond(429, { "Stripe-Should-Retry": "true" }),
+          now
+        )
+      ).toEqual({ limited: true });
+    });
+  });
+
+  /**
+   * Tests for the fetch wrapper
+   */
+  describe("createRateLimitedFetch", () => {
+    let limiter: ApiRateLimiter<Response>;
+    let fetchMock: jest.Mock;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      limiter = new ApiRateLimiter<Response>(
+        { windows: [{ limit: 2, durationMs: 1000 }] },
+        jest.fn()
+      );
+      fetchMock = jest.fn();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should send calls through the limiter's queue", async () => {
+      fetchMock.mockImplementation(async () => respond(200));
+      const rateLimitedFetch = createRateLimitedFetch(limiter, {
+        fetch: fetchMock,
+      });
+
+      const responses = ["/a", "/b", "/c"].map((url) => rateLimitedFetch(url));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(
+        (await Promise.all(responses)).map((response) => response.status)
+      ).toEqual([200, 200, 200]);
+      expect(fetchMock).toHaveBeenLastCalledWith("/c", undefined);
+    });
+
+    it("should retry a 429 after its Retry-After and return the final response", async () => {
+      fetchMock
+        .mockResolvedValueOnce(respond(429, { "Retry-After": "2" }))
+        .mockResolvedValueOnce(respond(200));
+      const rateLimitedFetch = createRateLimitedFetch(limiter, {
+        fetch: fetchMock,
+        retry: { jitter: "none", baseDelayMs: 0 },
+      });
+
+      const response = rateLimitedFetch("/a");
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect((await limiter.getStatus()).adaptive.backoffMs).toBe(1000);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect((await response).status).toBe(200);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("should return the last retryable response once the attempts are used up", async () => {
+      fetchMock.mockImplementation(async () => respond(503));
+      const rateLimitedFetch = createRateLimitedFetch(limiter, {
+        fetch: fetchMock,
+        retry: { maxAttempts: 2, jitter: "none", baseDelayMs: 0 },
+      });
+
+      const response = rateLimitedFetch("/a");
+      await jest.advanceTimersByTimeAsync(1000);
+      expect((await response).status).toBe(503);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry when Stripe says so", async () => {
+      fetchMock.mockResolvedValue(
+        respond(429, { "Stripe-Should-Retry": "false" })
+      );
+      const rateLimitedFetch = createRateLimitedFetch(limiter, {
+        fetch: fetchMock,
+      });
+
+      expect((await rateLimitedFetch("/a")).status).toBe(429);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should cap admissions to the remaining upstream quota", async () => {
+      fetchMock.mockImplementation(async () =>
+        respond(200, { "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": "5" })
+      );
+      const rateLimitedFetch = createRateLimitedFetch(limiter, {
+        fetch: fetchMock,
+      });
+
+      await rateLimitedFetch("/a");
+      rateLimitedFetch("/b");
+      await jest.advanceTimersByTimeAsync(4000);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("should read feedback at the time of the limiter's clock", async () => {
+      const clock = new VirtualClock(1000);
+      const response = respond(200);
+      const parseFeedback = jest.fn().mockReturnValue(undefined);
+      const rateLimitedFetch = createRateLimitedFetch(
+        new ApiRateLimiter<Response>({ clock }, jest.fn()),
+        { fetch: async () => response, parseFeedback }
+      );
+
+      await rateLimitedFetch("/a");
+      expect(parseFeedback).toHaveBeenCalledWith(response, 1000);
+    });
+
+    it("should reject network errors without retrying", async () => {
+      const error = new TypeError("fetch failed");
+      fetchMock.mockRejectedValue(error);
+      const rateLimitedFetch = createRateLimitedFetch(limiter, {
+        fetch: fetchMock,
+      });
+
+      await expect(rateLimitedFetch("/a")).rejects.toBe(error);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should charge the cost of a call", async () => {
+      fetchMock.mockImplementation(async () => respond(200));
+      const rateLimitedFetch = createRateLimitedFetch(limiter, {
+        fetch: fetchMock,
+        cost: () => 2,
+      });
+
+      rateLimitedFetch("/a");
+      rateLimitedFetch("/b");
+      await jest.advanceTimersByTimeAsync(0);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+});
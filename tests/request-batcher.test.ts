@@ -0,0 +1,192 @@
+import ApiRateLimiter from "../src/api-rate-limiter";
+import RequestBatcher from "../src/request-batcher";
+import { VirtualClock } from "../src/clock";
+import {
+  BatchResultError,
+  InvalidOptionsError,
+  QueueFullError,
+} from "../src/errors";
+
+/**
+ * Test suite for RequestBatcher
+ * Tests grouping of items into batch calls, delays and per-item results and errors
+ */
+describe("RequestBatcher", () => {
+  let limiter: ApiRateLimiter<any>;
+  const fetchUsers = jest.fn(async (ids: number[]) =>
+    ids.map((id) => `user-${id}`)
+  );
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    fetchUsers.mockClear();
+    limiter = new ApiRateLimiter(
+      { windows: [{ limit: 1, durationMs: 1000 }] },
+      jest.fn()
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should throw InvalidOptionsError for invalid options", () => {
+    expect(
+      () => new RequestBatcher(limiter, { batch: fetchUsers, maxBatchSize: 0 })
+    ).toThrow(InvalidOptionsError);
+    expect(
+      () => new RequestBatcher(limiter, { batch: fetchUsers, maxDelayMs: -1 })
+    ).toThrow(InvalidOptionsError);
+  });
+
+  it("should merge items added together into one batch call", async () => {
+    const batcher = new RequestBatcher(limiter, { batch: fetchUsers });
+
+    const users = Promise.all([1, 2, 3].map((id) => batcher.add(id)));
+    await jest.advanceTimersByTimeAsync(0);
+
+    await expect(users).resolves.toEqual(["user-1", "user-2", "user-3"]);
+    expect(fetchUsers).toHaveBeenCalledTimes(1);
+    expect(fetchUsers).toHaveBeenCalledWith([1, 2, 3]);
+  });
+
+  it("should keep collecting items while the batch waits for admission", async () => {
+    const batcher = new RequestBatcher(limiter, {
+      batch: fetchUsers,
+      maxBatchSize: 3,
+    });
+
+    batcher.add(1);
+    await jest.advanceTimersByTimeAsync(0);
+    [2, 3, 4, 5].forEach((id) => batcher.add(id));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fetchUsers.mock.calls).toEqual([[[1]]]);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(fetchUsers.mock.calls).toEqual([[[1]], [[2, 3, 4]]]);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(fetchUsers.mock.calls).toEqual([[[1]], [[2, 3, 4]], [[5]]]);
+  });
+
+  it("should wait up to maxDelayMs before queueing a batch", async () => {
+    const batcher = new RequestBatcher(limiter, {
+      batch: fetchUsers,
+      maxDelayMs: 50,
+    });
+
+    batcher.add(1);
+    await jest.advanceTimersByTimeAsync(49);
+    batcher.add(2);
+    expect(fetchUsers).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fetchUsers).toHaveBeenCalledWith([1, 2]);
+  });
+
+  it("should wait for maxDelayMs on the limiter's clock", async () => {
+    jest.useRealTimers();
+    const clock = new VirtualClock();
+    const batcher = new RequestBatcher(
+      new ApiRateLimiter({ windows: [{ limit: 1, durationMs: 1000 }], clock }),
+      { batch: fetchUsers, maxDelayMs: 50 }
+    );
+
+    let user: string | undefined;
+    batcher.add(1).then((result) => (user = result));
+    await clock.advance(50);
+    expect(user).toBe("user-1");
+  });
+
+  it("should queue a batch right away when full or flushed", async () => {
+    const batcher = new RequestBatcher(limiter, {
+      batch: fetchUsers,
+      maxBatchSize: 2,
+      maxDelayMs: 1000,
+    });
+
+    batcher.add(1);
+    batcher.add(2);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fetchUsers).toHaveBeenCalledWith([1, 2]);
+
+    batcher.add(3);
+    batcher.flush();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(fetchUsers).toHaveBeenLastCalledWith([3]);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it("should reject only the items whose result is an error", async () => {
+    const missing = new Error("not found");
+    const batcher = new RequestBatcher(limiter, {
+      batch: async (ids: number[]) =>
+        ids.map((id) => (id === 2 ? missing : `user-${id}`)),
+    });
+
+    const users = Promise.allSettled([1, 2].map((id) => batcher.add(id)));
+    await jest.advanceTimersByTimeAsync(0);
+
+    await expect(users).resolves.toEqual([
+      { status: "fulfilled", value: "user-1" },
+      { status: "rejected", reason: missing },
+    ]);
+  });
+
+  it("should map the error of a failed batch call to every item", async () => {
+    const batcher = new RequestBatcher(limiter, {
+      batch: () => Promise.reject(new Error("boom")),
+      mapError: (error, id: number) =>
+        new Error(`${(error as Error).message} for ${id}`),
+    });
+
+    const users = Promise.allSettled([1, 2].map((id) => batcher.add(id)));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(
+      (await users).map(
+        (user) => user.status === "rejected" && user.reason.message
+      )
+    ).toEqual(["boom for 1", "boom for 2"]);
+  });
+
+  it("should start a new batch after the limiter rejected the previous one", async () => {
+    const full = new ApiRateLimiter<any>(
+      { windows: [{ limit: 1, durationMs: 1000 }], maxQueueSize: 1 },
+      jest.fn()
+    );
+    const batcher = new RequestBatcher(full, { batch: fetchUsers });
+    full.addRequest(async () => "first");
+    full.addRequest(async () => "second");
+    await jest.advanceTimersByTimeAsync(0);
+
+    const [rejected] = await Promise.allSettled([
+      batcher.add(1),
+      jest.advanceTimersByTimeAsync(0),
+    ]);
+    expect(rejected.status === "rejected" && rejected.reason).toBeInstanceOf(
+      QueueFullError
+    );
+    await jest.advanceTimersByTimeAsync(1000);
+
+    const user = batcher.add(2);
+    await jest.advanceTimersByTimeAsync(1000);
+    await expect(user).resolves.toBe("user-2");
+    expect(fetchUsers).toHaveBeenCalledWith([2]);
+  });
+
+  it("should reject every item when the number of results does not match", async () => {
+    const batcher = new RequestBatcher(limiter, {
+      batch: async () => ["user-1"],
+    });
+
+    const users = Promise.allSettled([1, 2].map((id) => batcher.add(id)));
+    await jest.advanceTimersByTimeAsync(0);
+
+    for (const user of await users) {
+      expect(user.status === "rejected" && user.reason).toBeInstanceOf(
+        BatchResultError
+      );
+    }
+  });
+});
@@ -0,0 +1,52 @@
+import { backoffDelay, resolveRetryPolicy } from "../src/retry-policy";
+import { InvalidOptionsError } from "../src/errors";
+
+/**
+ * Test suite for the retry policy helpers
+ * Tests defaults, validation and exponential backoff with jitter
+ */
+describe("retry policy", () => {
+  it("should fill in defaults", () => {
+    const policy = resolveRetryPolicy({});
+    expect(policy).toMatchObject({
+      maxAttempts: 3,
+      baseDelayMs: 100,
+      maxDelayMs: 10000,
+      jitter: "full",
+    });
+    expect(policy.retryable(new Error(), 1)).toBe(true);
+  });
+
+  it("should throw InvalidOptionsError for invalid values", () => {
+    expect(() => resolveRetryPolicy({ maxAttempts: 0 })).toThrow(
+      InvalidOptionsError
+    );
+    expect(() =>
+      resolveRetryPolicy({ baseDelayMs: 500, maxDelayMs: 100 })
+    ).toThrow(InvalidOptionsError);
+    expect(() => resolveRetryPolicy({ jitter: "some" as any })).toThrow(
+      InvalidOptionsError
+    );
+  });
+
+  it("should double the backoff per attempt up to the cap", () => {
+    const policy = resolveRetryPolicy({
+      baseDelayMs: 100,
+      maxDelayMs: 500,
+      jitter: "none",
+    });
+    expect(
+      [1, 2, 3, 4].map((attempt) => backoffDelay(policy, attempt))
+    ).toEqual([100, 200, 400, 500]);
+  });
+
+  it("should randomize the backoff according to the jitter", () => {
+    const full = resolveRetryPolicy({ baseDelayMs: 100, jitter: "full" });
+    const equal = resolveRetryPolicy({ baseDelayMs: 100, jitter: "equal" });
+
+    expect(backoffDelay(full, 2, () => 0)).toBe(0);
+    expect(backoffDelay(full, 2, () => 0.5)).toBe(100);
+    expect(backoffDelay(equal, 2, () => 0)).toBe(100);
+    expect(backoffDelay(equal, 2, () => 0.999)).toBe(199);
+  });
+});
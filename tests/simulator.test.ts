@@ -0,0 +1,158 @@
+import ApiRateLimiter from "../src/api-rate-limiter";
+import { VirtualClock } from "../src/clock";
+import { poissonArrivals, simulate } from "../src/simulator";
+import { InvalidOptionsError } from "../src/errors";
+
+/**
+ * Test suite for the virtual clock and the simulator
+ * Tests run in virtual time, without fake timers
+ */
+describe("simulation", () => {
+  /**
+   * Tests for the virtual clock
+   */
+  describe("VirtualClock", () => {
+    it("should fire timers in due order, and in scheduling order on ties", async () => {
+      const clock = new VirtualClock(1000);
+      const fired: string[] = [];
+      clock.setTimeout(() => fired.push(`b@${clock.now()}`), 50);
+      clock.setTimeout(() => fired.push(`a@${clock.now()}`), 10);
+      clock.setTimeout(() => fired.push(`c@${clock.now()}`), 50);
+      clock.clearTimeout(clock.setTimeout(() => fired.push("cleared"), 20));
+
+      await clock.advance(40);
+      expect(fired).toEqual(["a@1010"]);
+      expect(clock.now()).toBe(1040);
+
+      await clock.runUntil();
+      expect(fired).toEqual(["a@1010", "b@1050", "c@1050"]);
+      expect(clock.pending).toBe(0);
+    });
+
+    it("should run a limiter in virtual time", async () => {
+      const clock = new VirtualClock();
+      const limiter = new ApiRateLimiter<number>({
+        windows: [{ limit: 1, durationMs: 1000 }],
+        clock,
+      });
+
+      const admittedAt = Promise.all(
+        [1, 2, 3].map(() => limiter.addRequest(async () => clock.now()))
+      );
+      await clock.runUntil();
+
+      await expect(admittedAt).resolves.toEqual([0, 1000, 2000]);
+    });
+  });
+
+  /**
+   * Tests for generated traces
+   */
+  describe("poissonArrivals", () => {
+    it("should generate the same trace for the same seed", () => {
+      const arrivals = poissonArrivals(10, 60000, 7);
+
+      expect(poissonArrivals(10, 60000, 7)).toEqual(arrivals);
+      expect(poissonArrivals(10, 60000, 8)).not.toEqual(arrivals);
+      expect(arrivals.length).toBeGreaterThan(500);
+      expect(arrivals.length).toBeLessThan(700);
+      expect(arrivals.every((at, i) => i === 0 || at >= arrivals[i - 1])).toBe(
+        true
+      );
+    });
+
+    it("should throw InvalidOptionsError for a non-positive rate or duration", () => {
+      expect(() => poissonArrivals(0, 1000)).toThrow(InvalidOptionsError);
+      expect(() => poissonArrivals(1, -1)).toThrow(InvalidOptionsError);
+    });
+  });
+
+  /**
+   * Tests for replaying traces
+   */
+  describe("simulate", () => {
+    it("should report admissions, rejections, queue depth and wait times", async () => {
+      const report = await simulate({
+        limiter: {
+          windows: [{ limit: 2, durationMs: 1000 }],
+          strategy: "sliding-window-log",
+          maxQueueSize: 2,
+        },
+        arrivals: [0, 0, 0, 0, 0],
+        durationMs: 100,
+      });
+
+      expect(report.requests.map(({ admittedAt }) => admittedAt)).toEqual([
+        0,
+        0,
+        1000,
+        1000,
+        null,
+      ]);
+      expect(report.requests[4].error).toBe("QueueFullError");
+      expect(report).toMatchObject({
+        admitted: 4,
+        rejected: 1,
+        maxQueueDepth: 2,
+        waitMs: { mean: 500, p50: 0, p90: 1000, p99: 1000, max: 1000 },
+        violations: [],
+        endedAt: 1100,
+      });
+    });
+
+    it("should report intervals in which a window admitted more than its limit", async () => {
+      const report = await simulate({
+        limiter: {
+          windows: [{ limit: 2, durationMs: 1000 }],
+          strategy: "fixed-window",
+        },
+        arrivals: [900, 900, 1000, 1000],
+      });
+
+      expect(report.admitted).toBe(4);
+      expect(report.violations).toEqual([
+        { durationMs: 1000, limit: 2, from: 900, to: 1000, admitted: 4 },
+      ]);
+    });
+
+    it("should emulate a polling loop with tickIntervalMs", async () => {
+      const options = {
+        limiter: { windows: [{ limit: 2, durationMs: 1000 }] },
+        arrivals: [0, 0, 0, 0],
+      };
+
+      const precise = await simulate(options);
+      const polled = await simulate({ ...options, tickIntervalMs: 1000 });
+
+      expect(precise.requests.map(({ admittedAt }) => admittedAt)).toEqual([
+        0, 0, 500, 1000,
+      ]);
+      expect(polled.requests.map(({ admittedAt }) => admittedAt)).toEqual([
+        0, 0, 1000, 1000,
+      ]);
+      await expect(simulate({ ...options, tickIntervalMs: 0 })).rejects.toThrow(
+        InvalidOptionsError
+      );
+    });
+
+    it("should replay recorded arrivals with lanes, costs and durations", async () => {
+      const report = await simulate({
+        limiter: {
+          windows: [{ limit: 2, durationMs: 1000 }],
+          lanes: [{ name: "interactive" }, { name: "batch" }],
+          maxConcurrent: 1,
+        },
+        arrivals: [
+          { at: 0, lane: "batch", durationMs: 250 },
+          { at: 100, lane: "batch" },
+          { at: 200, lane: "interactive", cost: 1 },
+        ],
+      });
+
+      expect(report.requests.map(({ admittedAt }) => admittedAt)).toEqual([
+        0, 500, 250,
+      ]);
+      expect(report.maxQueueDepth).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import ApiRateLimiter from "../src/api-rate-limiter";
+import { autoSaveState, loadState, saveState } from "../src/state-file";
+import { InvalidOptionsError } from "../src/errors";
+
+/**
+ * Test suite for the state file helpers
+ * Tests saving, restoring and periodically saving the limiter state
+ */
+describe("state file", () => {
+  let directory: string;
+  let file: string;
+  const createLimiter = () =>
+    new ApiRateLimiter<string>({ windows: [{ limit: 5, durationMs: 60000 }] });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "rate-limiter-"));
+    file = path.join(directory, "state.json");
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should restore a saved state after a restart", async () => {
+    const limiter = createLimiter();
+    await limiter.tryAcquire(3);
+    await saveState(limiter, file);
+
+    const restarted = createLimiter();
+    await expect(loadState(restarted, file)).resolves.toBe(true);
+    expect((await restarted.getStatus()).windows[0].remaining).toBe(2);
+    expect(await fs.readdir(directory)).toEqual(["state.json"]);
+  });
+
+  it("should leave the limiter untouched when there is no saved state", async () => {
+    const limiter = createLimiter();
+
+    await expect(loadState(limiter, file)).resolves.toBe(false);
+    expect((await limiter.getStatus()).windows[0].remaining).toBe(5);
+  });
+
+  it("should save periodically and once more when stopped", async () => {
+    jest.useFakeTimers({ doNotFake: ["nextTick", "setImmediate"] });
+    try {
+      const limiter = createLimiter();
+      expect(() => autoSaveState(limiter, file, { intervalMs: 0 })).toThrow(
+        InvalidOptionsError
+      );
+      const autoSave = autoSaveState(limiter, file, { intervalMs: 1000 });
+
+      await limiter.tryAcquire(1);
+      jest.advanceTimersByTime(1000);
+      await autoSave.stop();
+      expect(jest.getTimerCount()).toBe(0);
+
+      await limiter.tryAcquire(1);
+      await autoSave.stop();
+      const restarted = createLimiter();
+      await loadState(restarted, file);
+      expect((await restarted.getStatus()).windows[0].remaining).toBe(3);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
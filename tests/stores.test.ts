@@ -0,0 +1,217 @@
+import { promises as fs, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import ApiRateLimiter from "../src/api-rate-limiter";
+import { StoreContentionError } from "../src/errors";
+import {
+  COMPARE_AND_SET_SCRIPT,
+  FileStore,
+  MemoryStore,
+  RedisClientLike,
+  RedisStore,
+} from "../src/stores";
+import { LimiterState, RateLimitStore } from "../src/type";
+
+/**
+ * A local stand-in for a Redis server that understands the compare-and-set script
+ */
+class FakeRedis implements RedisClientLike {
+  values = new Map<string, string>();
+  ttls = new Map<string, number>();
+
+  async get(key: string): Promise<string | null> {
+    await new Promise((resolve) => setImmediate(resolve));
+    return this.values.get(key) ?? null;
+  }
+
+  async eval(script: string, keys: string[], args: string[]) {
+    expect(script).toBe(COMPARE_AND_SET_SCRIPT);
+    await new Promise((resolve) => setImmediate(resolve));
+    const [expected, value, ttl] = args;
+    if ((this.values.get(keys[0]) ?? "") !== expected) {
+      return 0;
+    }
+    this.values.set(keys[0], value);
+    this.ttls.set(keys[0], Number(ttl));
+    return 1;
+  }
+}
+
+/**
+ * Increments a counter kept in the state of `key`.
+ */
+const increment = (store: RateLimitStore, key = "counter") =>
+  store.update(key, (state) => {
+    const next: LimiterState = state ?? { windows: { count: 0 } };
+    next.windows.count++;
+    return { state: next, result: next.windows.count, ttlMs: 1000 };
+  });
+
+/**
+ * Test suite for the rate limit stores
+ * Tests atomic updates and sharing one quota between limiters
+ */
+describe("stores", () => {
+  describe("MemoryStore", () => {
+    it("should share one quota between limiters using the same key", async () => {
+      const store = new MemoryStore();
+      const options = {
+        windows: [{ limit: 3, durationMs: 60000 }],
+        store,
+        storeKey: "vendor-api",
+      };
+      const first = new ApiRateLimiter<string>(options);
+      const second = new ApiRateLimiter<string>(options);
+      const request = () => Promise.resolve("ok");
+
+      await first.addRequest(request);
+      await second.addRequest(request);
+      await first.addRequest(request);
+
+      expect((await first.getStatus()).availableRequests).toBe(0);
+      expect((await second.getStatus()).availableRequests).toBe(0);
+
+      const other = new ApiRateLimiter<string>({
+        ...options,
+        storeKey: "other",
+      });
+      expect((await other.getStatus()).availableRequests).toBe(3);
+    });
+  });
+
+  describe("FileStore", () => {
+    let directory: string;
+    let file: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), "rate-limiter-"));
+      file = path.join(directory, "state.json");
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it("should serialize concurrent updates from independent instances", async () => {
+      const first = new FileStore(file);
+      const second = new FileStore(file);
+
+      await Promise.all(
+        Array(20)
+          .fill(null)
+          .map((_, index) => increment(index % 2 ? first : second))
+      );
+
+      expect(await increment(first)).toBe(21);
+      expect(JSON.parse(await fs.readFile(file, "utf8"))).toEqual({
+        counter: { windows: { count: 21 } },
+      });
+      await expect(fs.stat(`${file}.lock`)).rejects.toThrow();
+    });
+
+    it("should release the lock when the mutation throws", async () => {
+      const store = new FileStore(file);
+      await expect(
+        store.update("counter", () => {
+          throw new Error("boom");
+        })
+      ).rejects.toThrow("boom");
+      expect(await increment(store)).toBe(1);
+    });
+
+    it("should take over a stale lock file", async () => {
+      await fs.writeFile(`${file}.lock`, "");
+      const past = new Date(Date.now() - 60000);
+      await fs.utimes(`${file}.lock`, past, past);
+
+      expect(await increment(new FileStore(file))).toBe(1);
+    });
+
+    it("should let only one of several processes take over a stale lock", async () => {
+      await fs.writeFile(`${file}.lock`, "crashed");
+      const past = new Date(Date.now() - 60000);
+      await fs.utimes(`${file}.lock`, past, past);
+      let inside = 0;
+      let overlapped = false;
+      const hold = (store: FileStore) =>
+        store.update("counter", (state) => {
+          overlapped ||= inside > 0;
+          inside++;
+          return { state: state ?? { windows: {} }, result: inside-- };
+        });
+
+      await Promise.all([
+        hold(new FileStore(file)),
+        hold(new FileStore(file)),
+        hold(new FileStore(file)),
+      ]);
+
+      expect(overlapped).toBe(false);
+      expect(await fs.readdir(directory)).toEqual(["state.json"]);
+    });
+
+    it("should not remove a lock that another process took over", async () => {
+      await new FileStore(file).update("counter", (state) => {
+        // Another process takes the lock over while the update is slow.
+        writeFileSync(`${file}.lock`, "other process");
+        return { state: state ?? { windows: {} }, result: undefined };
+      });
+
+      await expect(fs.readFile(`${file}.lock`, "utf8")).resolves.toBe(
+        "other process"
+      );
+    });
+
+    it("should throw StoreContentionError when the lock is held too long", async () => {
+      await fs.writeFile(`${file}.lock`, "");
+      const store = new FileStore(file, { lockTimeoutMs: 20 });
+
+      await expect(increment(store)).rejects.toBeInstanceOf(
+        StoreContentionError
+      );
+    });
+  });
+
+  describe("RedisStore", () => {
+    it("should retry conflicting updates until they apply", async () => {
+      const redis = new FakeRedis();
+      const first = new RedisStore(redis);
+      const second = new RedisStore(redis);
+
+      await Promise.all(
+        Array(10)
+          .fill(null)
+          .map((_, index) => increment(index % 2 ? first : second))
+      );
+
+      expect(JSON.parse(redis.values.get("api-rate-limiter:counter")!)).toEqual(
+        { windows: { count: 10 } }
+      );
+      expect(redis.ttls.get("api-rate-limiter:counter")).toBe(1000);
+    });
+
+    it("should throw StoreContentionError after maxAttempts conflicts", async () => {
+      const redis = new FakeRedis();
+      redis.eval = async () => 0;
+      const store = new RedisStore(redis, { prefix: "test:", maxAttempts: 3 });
+
+      await expect(increment(store)).rejects.toBeInstanceOf(
+        StoreContentionError
+      );
+    });
+
+    it("should back a rate limiter", async () => {
+      const redis = new FakeRedis();
+      const limiter = new ApiRateLimiter<string>({
+        windows: [{ limit: 2, durationMs: 1000 }],
+        store: new RedisStore(redis),
+      });
+
+      await limiter.addRequest(() => Promise.resolve("ok"));
+      const status = await limiter.getStatus();
+
+      expect(status.availableRequests).toBe(1);
+      expect(redis.ttls.get("api-rate-limiter:default")).toBe(1000);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import {
+  createStrategy,
+  FixedWindowStrategy,
+  GcraStrategy,
+  SlidingWindowCounterStrategy,
+  SlidingWindowLogStrategy,
+  TokenBucketStrategy,
+} from "../src/strategies";
+import { InvalidOptionsError } from "../src/errors";
+import { LimitingStrategy, RateLimitWindow } from "../src/type";
+
+/**
+ * Test suite for the built-in limiting strategies
+ * Every strategy is driven with explicit timestamps, independently of the rate limiter
+ */
+describe("limiting strategies", () => {
+  const window: RateLimitWindow = { limit: 10, durationMs: 1000 };
+
+  /**
+   * Admits `count` requests one at a time at `now`.
+   */
+  const admit = (
+    strategy: LimitingStrategy,
+    state: any,
+    count: number,
+    now: number
+  ) => {
+    for (let i = 0; i < count; i++) {
+      strategy.consume(state, window, 1, now);
+    }
+  };
+
+  /**
+   * Behavior every strategy shares
+   */
+  describe.each<[string, LimitingStrategy]>([
+    ["token-bucket", new TokenBucketStrategy()],
+    ["fixed-window", new FixedWindowStrategy()],
+    ["sliding-window-log", new SlidingWindowLogStrategy()],
+    ["sliding-window-counter", new SlidingWindowCounterStrategy()],
+    ["gcra", new GcraStrategy()],
+  ])("%s", (name, strategy) => {
+    it("should expose its name", () => {
+      expect(strategy.name).toBe(name);
+    });
+
+    it("should start with the full limit available", () => {
+      const state = strategy.createState(window, 0);
+      expect(strategy.available(state, window, 0)).toBe(10);
+      expect(strategy.waitTime(state, window, 1, 0)).toBe(0);
+    });
+
+    it("should deny requests beyond the limit and report a positive wait time", () => {
+      const state = strategy.createState(window, 0);
+      admit(strategy, state, 10, 0);
+      expect(strategy.available(state, window, 0)).toBe(0);
+      expect(strategy.waitTime(state, window, 1, 0)).toBeGreaterThan(0);
+    });
+
+    it("should admit again once the reported wait time has elapsed", () => {
+      const state = strategy.createState(window, 0);
+      admit(strategy, state, 10, 0);
+      const wait = strategy.waitTime(state, window, 1, 0);
+      expect(strategy.available(state, window, wait)).toBeGreaterThanOrEqual(1);
+    });
+
+    it("should give refunded capacity back", () => {
+      const state = strategy.createState(window, 0);
+      strategy.consume(state, window, 8, 0);
+      strategy.consume(state, window, -5, 0);
+      expect(strategy.available(state, window, 0)).toBe(7);
+      strategy.consume(state, window, -20, 0);
+      expect(strategy.available(state, window, 0)).toBe(10);
+    });
+
+    it("should keep the used fraction of the window when the limit changes", () => {
+      const state = strategy.createState(window, 0);
+      admit(strategy, state, 4, 0);
+      const doubled = { ...window, limit: 20 };
+
+      strategy.rescale?.(state, window, doubled, 0);
+      // The log keeps its actual admissions instead of rescaling them.
+      expect(strategy.available(state, doubled, 0)).toBe(
+        name === "sliding-window-log" ? 16 : 12
+      );
+    });
+
+    it("should keep a JSON-serializable state", () => {
+      const state = strategy.createState(window, 0);
+      admit(strategy, state, 3, 0);
+      const copy = JSON.parse(JSON.stringify(state));
+      expect(strategy.available(copy, window, 0)).toBe(
+        strategy.available(state, window, 0)
+      );
+    });
+  });
+
+  describe("token-bucket", () => {
+    it("should refill continuously instead of resetting", () => {
+      const strategy = new TokenBucketStrategy();
+      const state = strategy.createState(window, 0);
+      admit(strategy, state, 10, 0);
+      expect(strategy.available(state, window, 250)).toBe(2);
+      expect(strategy.waitTime(state, window, 3, 250)).toBe(50);
+    });
+  });
+
+  describe("fixed-window", () => {
+    it("should reset the count at the window boundary", () => {
+      const strategy = new FixedWindowStrategy();
+      const state = strategy.createState(window, 900);
+      admit(strategy, state, 10, 900);
+      expect(strategy.waitTime(state, window, 1, 900)).toBe(100);
+      expect(strategy.available(state, window, 1000)).toBe(10);
+    });
+  });
+
+  describe("sliding-window-log", () => {
+    it("should free capacity as individual requests leave the window", () => {
+      const strategy = new SlidingWindowLogStrategy();
+      const state = strategy.createState();
+      admit(strategy, state, 5, 0);
+      admit(strategy, state, 5, 600);
+      expect(strategy.waitTime(state, window, 1, 900)).toBe(100);
+      expect(strategy.available(state, window, 1000)).toBe(5);
+    });
+
+    it("should log a costly admission as one entry and wait for enough of them to leave", () => {
+      const strategy = new SlidingWindowLogStrategy();
+      const state = strategy.createState();
+      strategy.consume(state, window, 4, 0);
+      strategy.consume(state, window, 6, 500);
+      expect(state.log).toHaveLength(2);
+
+      expect(strategy.waitTime(state, window, 3, 500)).toBe(500);
+      expect(strategy.waitTime(state, window, 5, 500)).toBe(1000);
+      strategy.consume(state, window, -7, 500);
+      expect(state.log).toEqual([{ at: 0, cost: 3 }]);
+    });
+  });
+
+  describe("sliding-window-counter", () => {
+    it("should weight the previous window by its remaining overlap", () => {
+      const strategy = new SlidingWindowCounterStrategy();
+      const state = strategy.createState(window, 0);
+      admit(strategy, state, 10, 500);
+      expect(strategy.available(state, window, 1250)).toBe(2);
+      expect(strategy.waitTime(state, window, 3, 1250)).toBe(50);
+    });
+  });
+
+  describe("gcra", () => {
+    it("should space requests by the emission interval once the burst is spent", () => {
+      const strategy = new GcraStrategy();
+      const state = strategy.createState(window, 0);
+      admit(strategy, state, 10, 0);
+      expect(strategy.waitTime(state, window, 1, 0)).toBe(100);
+      expect(strategy.waitTime(state, window, 2, 0)).toBe(200);
+      expect(strategy.available(state, window, 300)).toBe(3);
+    });
+  });
+
+  describe("createStrategy", () => {
+    it("should default to the token bucket", () => {
+      expect(createStrategy()).toBeInstanceOf(TokenBucketStrategy);
+    });
+
+    it("should return custom strategies unchanged", () => {
+      const custom = new GcraStrategy();
+      expect(createStrategy(custom)).toBe(custom);
+    });
+
+    it("should throw InvalidOptionsError for unknown names", () => {
+      expect(() => createStrategy("leaky" as any)).toThrow(InvalidOptionsError);
+    });
+  });
+});